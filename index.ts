@@ -1,25 +1,74 @@
 // 主服务器入口
-import { PhotoScanner } from "./lib/scanner";
+import { join } from "node:path";
+import { PhotoScanner, type LibraryConfig, type ScanEvent } from "./lib/scanner";
 import { StoryGenerator } from "./lib/stories";
-import type { Photo } from "./lib/types";
+import { FaceCropper } from "./lib/faces";
+import { THUMBNAIL_SIZES, ThumbnailGenerator } from "./lib/thumbnails";
+import type { AlbumUpdate, PersonUpdate } from "./lib/database";
+import type { AlbumSort, LocationFilter, Photo, ThumbnailSize } from "./lib/types";
 import index from "./src/index.html";
 
+// 解析 LIBRARIES="personal=/volume1/homes/me/Photos,shared=/volume1/photo"
+function parseLibraries(value: string): LibraryConfig[] {
+  return value.split(",").map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const separator = entry.indexOf("=");
+    if (separator <= 0) {
+      throw new Error(`Invalid LIBRARIES entry "${entry}", expected name=path`);
+    }
+    return { name: entry.slice(0, separator).trim(), path: entry.slice(separator + 1).trim() };
+  });
+}
+
 // 配置
 const PHOTOS_DIR = process.env.PHOTOS_DIR || "./photos";
+const DATA_DIR = process.env.DATA_DIR || "./data";
+const LIBRARY_NAME = process.env.LIBRARY_NAME || "default";
+// 设置 LIBRARIES 时忽略 PHOTOS_DIR 和 LIBRARY_NAME
+const LIBRARIES = process.env.LIBRARIES
+  ? parseLibraries(process.env.LIBRARIES)
+  : [{ name: LIBRARY_NAME, path: PHOTOS_DIR }];
 const PORT = parseInt(process.env.PORT || "3000");
+const WATCH = process.env.WATCH !== "0";
+const SWEEP_INTERVAL = parseInt(process.env.SWEEP_INTERVAL || "10"); // 分钟
+const SCAN_CONCURRENCY = parseInt(process.env.SCAN_CONCURRENCY || "4");
+// 元数据提供者及优先级，例如 METADATA_PROVIDERS="exif,takeout,xmp"
+const METADATA_PROVIDERS = process.env.METADATA_PROVIDERS
+  ?.split(",").map(name => name.trim()).filter(Boolean);
+const THUMBNAIL_CACHE_MB = parseInt(process.env.THUMBNAIL_CACHE_MB || "1024");
 
 // 初始化扫描器和故事生成器
-const scanner = new PhotoScanner(PHOTOS_DIR);
+const scanner = new PhotoScanner(LIBRARIES, {
+  dataDir: DATA_DIR,
+  concurrency: SCAN_CONCURRENCY,
+  metadataProviders: METADATA_PROVIDERS,
+});
 let storyGenerator: StoryGenerator | null = null;
+const faceCropper = new FaceCropper(join(DATA_DIR, "faces"));
+const thumbnails = new ThumbnailGenerator(join(DATA_DIR, "thumbnails"), THUMBNAIL_CACHE_MB * 1024 * 1024);
+
+// 扫描进度事件流的心跳间隔
+const SSE_HEARTBEAT_MS = 15 * 1000;
 
 // 缓存已生成的故事
 let cachedStories: ReturnType<StoryGenerator["generateMultipleStories"]> = [];
 
+// 照片库增量变化时，只在影响故事内容时重新生成
+scanner.onChange((change) => {
+  if (change.storiesAffected && storyGenerator) {
+    cachedStories = storyGenerator.generateMultipleStories(10);
+  }
+});
+
 // 后台扫描照片（不阻塞服务器启动）
 console.log("Starting photo gallery server...");
 scanner.scan().then(() => {
   storyGenerator = new StoryGenerator(scanner);
   cachedStories = storyGenerator.generateMultipleStories(10);
+
+  // 监听文件变化，自动索引新上传的照片
+  if (WATCH) {
+    scanner.watch({ sweepIntervalMs: SWEEP_INTERVAL * 60 * 1000 });
+  }
   
   // 每小时刷新故事
   setInterval(() => {
@@ -27,7 +76,7 @@ scanner.scan().then(() => {
       cachedStories = storyGenerator.generateMultipleStories(10);
     }
   }, 60 * 60 * 1000);
-});
+}).catch(error => console.error("Initial scan failed:", error));
 
 // API 响应辅助函数
 function jsonResponse(data: unknown, status = 200) {
@@ -41,9 +90,96 @@ function errorResponse(message: string, status = 500) {
   return jsonResponse({ error: message }, status);
 }
 
-// 处理照片文件请求
-async function servePhoto(photo: Photo, type: "original" | "thumbnail") {
-  const filePath = type === "thumbnail" && photo.thumbnail ? photo.thumbnail : photo.path;
+// 返回给前端的照片：不暴露服务器上的文件和缩略图路径
+function publicPhoto(photo: Photo) {
+  return { ...photo, path: undefined, thumbnail: undefined, thumbnails: undefined };
+}
+
+// 人物设置变化后重新生成故事（隐藏的人物不再出现在人物故事中）
+function refreshStories() {
+  if (storyGenerator) {
+    cachedStories = storyGenerator.generateMultipleStories(10);
+  }
+}
+
+// 校验人物设置请求体，格式错误时返回 null
+function parsePersonUpdate(body: unknown): PersonUpdate | null {
+  if (!body || typeof body !== "object") return null;
+  const { name, aliases, hidden, birthday } = body as Record<string, unknown>;
+
+  if (name !== undefined && (typeof name !== "string" || !name.trim())) return null;
+  if (aliases !== undefined && (!Array.isArray(aliases) || aliases.some(a => typeof a !== "string"))) return null;
+  if (hidden !== undefined && typeof hidden !== "boolean") return null;
+  if (birthday !== undefined && birthday !== null
+    && (typeof birthday !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(birthday))) return null;
+
+  return {
+    name: typeof name === "string" ? name.trim() : undefined,
+    aliases: Array.isArray(aliases) ? aliases.map(a => String(a).trim()).filter(Boolean) : undefined,
+    hidden: hidden as boolean | undefined,
+    birthday: birthday as string | null | undefined,
+  };
+}
+
+// 校验相册设置请求体，格式错误时返回 null。空字符串和 null 一样恢复默认
+function parseAlbumUpdate(body: unknown): AlbumUpdate | null {
+  if (!body || typeof body !== "object") return null;
+  const update: AlbumUpdate = {};
+  for (const field of ["title", "description", "coverPhoto"] as const) {
+    const value = (body as Record<string, unknown>)[field];
+    if (value === undefined) continue;
+    if (value !== null && typeof value !== "string") return null;
+    update[field] = value?.trim() || null;
+  }
+  return update;
+}
+
+const ALBUM_SORTS: AlbumSort[] = ["date", "name", "size"];
+
+// ?sort=date|name|size，缺省按名称，无效时返回 null
+function albumSortParam(req: Request): AlbumSort | null {
+  const value = new URL(req.url).searchParams.get("sort") || "name";
+  return ALBUM_SORTS.includes(value as AlbumSort) ? value as AlbumSort : null;
+}
+
+// ?root=personal,shared 只查询指定的照片库；缺省为所有启用的库
+function rootsParam(req: Request): string[] | undefined {
+  const value = new URL(req.url).searchParams.get("root");
+  return value ? value.split(",").filter(Boolean) : undefined;
+}
+
+// 扫描错误的筛选条件：?stage= 出错阶段，?path= 路径中包含的文本
+function scanErrorFilterParam(req: Request): { stage?: string; path?: string } {
+  const params = new URL(req.url).searchParams;
+  return { stage: params.get("stage") || undefined, path: params.get("path") || undefined };
+}
+
+// ?country=&region=&city= 或 ?place= 指定地点树中的一个节点，无效时返回 null
+function locationFilterParam(req: Request): LocationFilter | null {
+  const params = new URL(req.url).searchParams;
+  const place = params.get("place");
+  if (place !== null) {
+    const id = parseInt(place);
+    return Number.isInteger(id) ? { place: id } : null;
+  }
+
+  const filter: LocationFilter = {
+    country: params.get("country") || undefined,
+    region: params.get("region") || undefined,
+    city: params.get("city") || undefined,
+  };
+  return filter.country ? filter : null;
+}
+
+// 处理照片文件请求，size 为缩略图尺寸
+async function servePhoto(photo: Photo, size?: ThumbnailSize) {
+  const filePath = size ? await thumbnails.resolve(photo, size) : photo.path;
+  // 没有封面帧的视频和无法转换的格式不能回退到原文件（<img> 无法显示），前端显示占位图和下载链接
+  if (!filePath) {
+    return photo.mediaType === "video"
+      ? new Response("Poster not found", { status: 404 })
+      : new Response("No browser-compatible rendition available", { status: 415 });
+  }
 
   try {
     const file = Bun.file(filePath);
@@ -62,6 +198,83 @@ async function servePhoto(photo: Photo, type: "original" | "thumbnail") {
   }
 }
 
+// 下载原图
+async function downloadPhoto(photo: Photo) {
+  const file = Bun.file(photo.path);
+  if (!(await file.exists())) {
+    return new Response("Photo not found", { status: 404 });
+  }
+  return new Response(file, {
+    headers: {
+      "Content-Type": file.type,
+      "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(photo.filename)}`,
+    },
+  });
+}
+
+// 解析 Range 请求头，返回闭区间 [start, end]；无法满足时返回 null
+function parseRange(header: string, size: number): { start: number; end: number } | null {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) return null;
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // 后缀范围：最后 N 个字节
+    start = Math.max(size - parseInt(match[2]!), 0);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1]);
+    end = match[2] ? Math.min(parseInt(match[2]), size - 1) : size - 1;
+  }
+
+  if (start > end || start >= size) return null;
+  return { start, end };
+}
+
+// 处理视频流请求（支持 HTTP Range，用于播放器拖动进度）
+async function serveVideo(req: Request, photo: Photo) {
+  try {
+    const file = Bun.file(photo.path);
+    if (!(await file.exists())) {
+      return new Response("Video not found", { status: 404 });
+    }
+
+    const size = file.size;
+    const headers = {
+      "Content-Type": file.type,
+      "Accept-Ranges": "bytes",
+      "Cache-Control": "public, max-age=31536000",
+    };
+
+    const rangeHeader = req.headers.get("range");
+    if (!rangeHeader) {
+      return new Response(file, {
+        headers: { ...headers, "Content-Length": String(size) },
+      });
+    }
+
+    const range = parseRange(rangeHeader, size);
+    if (!range) {
+      return new Response("Range not satisfiable", {
+        status: 416,
+        headers: { "Content-Range": `bytes */${size}` },
+      });
+    }
+
+    return new Response(file.slice(range.start, range.end + 1), {
+      status: 206,
+      headers: {
+        ...headers,
+        "Content-Range": `bytes ${range.start}-${range.end}/${size}`,
+        "Content-Length": String(range.end - range.start + 1),
+      },
+    });
+  } catch {
+    return new Response("Error loading video", { status: 500 });
+  }
+}
+
 // 启动服务器
 Bun.serve({
   port: PORT,
@@ -70,28 +283,129 @@ Bun.serve({
     "/": index,
 
     // API: 获取所有照片
-    "/api/photos": () => {
-      const photos = scanner.getAllPhotos().map(p => ({
-        ...p,
-        path: undefined, // 不暴露服务器路径
-        thumbnail: p.thumbnail ? undefined : undefined,
-      }));
+    "/api/photos": (req) => {
+      const photos = scanner.getAllPhotos(rootsParam(req)).map(publicPhoto);
       return jsonResponse({ photos, total: photos.length });
     },
 
+    // API: 重复照片分组 (?distance= 感知哈希允许不同的位数，默认 6，最大 16)
+    "/api/duplicates": (req) => {
+      const distance = parseInt(new URL(req.url).searchParams.get("distance") || "");
+      const groups = scanner
+        .getDuplicates(rootsParam(req), isNaN(distance) ? undefined : distance)
+        .map(group => ({ ...group, photos: group.photos.map(publicPhoto) }));
+      return jsonResponse({ groups, total: groups.length });
+    },
+
     // API: 获取相册列表
-    "/api/albums": () => {
-      return jsonResponse({ albums: scanner.getAllAlbums() });
+    "/api/albums": (req) => {
+      const sort = albumSortParam(req);
+      if (!sort) {
+        return errorResponse("Invalid sort, expected date, name or size", 400);
+      }
+      const albums = scanner.getAllAlbums(rootsParam(req), sort).map(a => ({ ...a, path: undefined }));
+      return jsonResponse({ albums });
     },
 
     // API: 获取人物列表
-    "/api/people": () => {
-      return jsonResponse({ people: scanner.getAllPeople() });
+    "/api/people": (req) => {
+      const includeHidden = new URL(req.url).searchParams.get("hidden") === "1";
+      return jsonResponse({ people: scanner.getAllPeople(rootsParam(req), includeHidden) });
     },
 
-    // API: 获取地点列表
-    "/api/locations": () => {
-      return jsonResponse({ locations: scanner.getAllLocations() });
+    // API: 合并人物 { names: [...], into: "显示名字" }
+    "/api/people/merge": {
+      POST: async (req) => {
+        const body = await req.json().catch(() => null) as { names?: unknown; into?: unknown } | null;
+        const names = body?.names;
+        const into = typeof body?.into === "string" ? body.into.trim() : "";
+        if (!Array.isArray(names) || names.some(n => typeof n !== "string") || !into) {
+          return errorResponse("Expected { names: string[], into: string }", 400);
+        }
+        scanner.mergePeople(names as string[], into);
+        refreshStories();
+        return jsonResponse({ person: into });
+      },
+    },
+
+    // API: 修改或重置人物设置
+    "/api/people/:name": {
+      PUT: async (req) => {
+        const update = parsePersonUpdate(await req.json().catch(() => null));
+        if (!update) {
+          return errorResponse("Invalid person update", 400);
+        }
+        const name = decodeURIComponent(req.params.name);
+        scanner.updatePerson(name, update);
+        refreshStories();
+        return jsonResponse({ person: update.name || name });
+      },
+      DELETE: (req) => {
+        scanner.resetPerson(decodeURIComponent(req.params.name));
+        refreshStories();
+        return jsonResponse({ message: "Person settings removed" });
+      },
+    },
+
+    // API: 未命名的人脸（分页）
+    "/api/faces/unnamed": (req) => {
+      const params = new URL(req.url).searchParams;
+      const limit = Math.min(parseInt(params.get("limit") || "100") || 100, 500);
+      const offset = parseInt(params.get("offset") || "0") || 0;
+      return jsonResponse(scanner.getUnnamedFaces(limit, offset, rootsParam(req)));
+    },
+
+    // API: 照片中的人脸框
+    "/api/faces/:photoId": (req) => {
+      const photo = scanner.getPhoto(req.params.photoId);
+      if (!photo) {
+        return errorResponse("Photo not found", 404);
+      }
+      return jsonResponse({ photoId: photo.id, faces: photo.faces || [] });
+    },
+
+    // API: 获取地点树（国家 → 省份 → 城市 → 地点）
+    "/api/locations": (req) => {
+      return jsonResponse({ locations: scanner.getLocationTree(rootsParam(req)) });
+    },
+
+    // API: 获取地点照片
+    "/api/locations/photos": (req) => {
+      const filter = locationFilterParam(req);
+      if (!filter) {
+        return errorResponse("Expected country or place", 400);
+      }
+      return jsonResponse({ location: filter, photos: scanner.getLocationPhotos(filter, rootsParam(req)) });
+    },
+
+    // API: 获取照片库列表
+    "/api/libraries": () => {
+      const libraries = scanner.getLibraries().map(l => ({ ...l, path: undefined }));
+      return jsonResponse({ libraries });
+    },
+
+    // API: 启用或停用照片库
+    "/api/libraries/:name": {
+      PUT: async (req) => {
+        const body = await req.json().catch(() => null) as { enabled?: unknown } | null;
+        if (typeof body?.enabled !== "boolean") {
+          return errorResponse("Expected { enabled: boolean }", 400);
+        }
+        const name = decodeURIComponent(req.params.name);
+        if (!scanner.setLibraryEnabled(name, body.enabled)) {
+          return errorResponse("Library not found", 404);
+        }
+
+        // 重新启用的库在停用期间可能有变化，后台补扫一次
+        if (body.enabled) {
+          scanner.startScan()?.done
+            .then(refreshStories)
+            .catch(error => console.error("Rescan failed:", error));
+        } else {
+          refreshStories();
+        }
+        return jsonResponse({ library: name, enabled: body.enabled });
+      },
     },
 
     // API: 获取故事列表
@@ -152,11 +466,17 @@ Bun.serve({
       if (!photo) {
         return errorResponse("Photo not found", 404);
       }
-      return jsonResponse({
-        ...photo,
-        path: undefined,
-        thumbnail: undefined,
-      });
+      return jsonResponse(publicPhoto(photo));
+    },
+
+    // API: 堆叠中的其他文件（Live Photo 视频、RAW、连拍）
+    "/api/photos/:id/stack": (req) => {
+      const photo = scanner.getPhoto(req.params.id);
+      if (!photo) {
+        return errorResponse("Photo not found", 404);
+      }
+      const members = scanner.getStackMembers(photo).map(publicPhoto);
+      return jsonResponse({ photoId: photo.id, members });
     },
 
     // 动态路由：获取照片文件
@@ -165,7 +485,20 @@ Bun.serve({
       if (!photo) {
         return new Response("Photo not found", { status: 404 });
       }
-      return servePhoto(photo, "original");
+      // ?download=1 发送未经处理的原图；浏览器不能显示的格式（HEIC、TIFF、RAW）默认发送转换后的预览图
+      if (new URL(req.url).searchParams.get("download") === "1") {
+        return downloadPhoto(photo);
+      }
+      return servePhoto(photo, thumbnails.isBrowserSafe(photo) ? undefined : "preview");
+    },
+
+    // 动态路由：视频流
+    "/video/:id": async (req) => {
+      const photo = scanner.getPhoto(req.params.id);
+      if (!photo || photo.mediaType !== "video") {
+        return new Response("Video not found", { status: 404 });
+      }
+      return serveVideo(req, photo);
     },
 
     // 动态路由：获取缩略图
@@ -174,72 +507,183 @@ Bun.serve({
       if (!photo) {
         return new Response("Photo not found", { status: 404 });
       }
-      return servePhoto(photo, "thumbnail");
+      const size = new URL(req.url).searchParams.get("size") || "xl";
+      if (!Object.hasOwn(THUMBNAIL_SIZES, size)) {
+        return new Response(`Unknown thumbnail size "${size}"`, { status: 400 });
+      }
+      return servePhoto(photo, size as ThumbnailSize);
     },
 
-    // 动态路由：获取相册照片
+    // 动态路由：人脸头像（从照片中裁剪）
+    "/face/:photoId/:faceId": async (req) => {
+      const photo = scanner.getPhoto(req.params.photoId);
+      const faceId = decodeURIComponent(req.params.faceId);
+      const face = photo?.faces?.find(f => f.id === faceId);
+      if (!photo || !face) {
+        return new Response("Face not found", { status: 404 });
+      }
+
+      const cropPath = await faceCropper.getCrop(photo, face);
+      if (!cropPath) {
+        return new Response("Face crop unavailable", { status: 404 });
+      }
+      return new Response(Bun.file(cropPath), {
+        headers: {
+          "Content-Type": "image/jpeg",
+          "Cache-Control": "public, max-age=86400",
+        },
+      });
+    },
+
+    // 动态路由：相册、子相册和从顶层到上级相册的路径；修改或重置相册设置（标题、说明、封面）
+    "/api/albums/:id": {
+      GET: (req) => {
+        const album = scanner.getAlbum(req.params.id);
+        if (!album) {
+          return errorResponse("Album not found", 404);
+        }
+        const sort = albumSortParam(req);
+        if (!sort) {
+          return errorResponse("Invalid sort, expected date, name or size", 400);
+        }
+        const strip = (a: typeof album) => ({ ...a, path: undefined });
+        return jsonResponse({
+          album: strip(album),
+          children: scanner.getChildAlbums(album, sort).map(strip),
+          breadcrumbs: scanner.getAlbumBreadcrumbs(album).map(strip),
+        });
+      },
+      PUT: async (req) => {
+        const album = scanner.getAlbum(req.params.id);
+        if (!album) {
+          return errorResponse("Album not found", 404);
+        }
+        const update = parseAlbumUpdate(await req.json().catch(() => null));
+        if (!update) {
+          return errorResponse("Invalid album update", 400);
+        }
+        if (!scanner.updateAlbumSettings(album, update)) {
+          return errorResponse("Cover photo is not in this album", 400);
+        }
+        return jsonResponse({ album: { ...scanner.getAlbum(album.id)!, path: undefined } });
+      },
+      DELETE: (req) => {
+        const album = scanner.getAlbum(req.params.id);
+        if (!album) {
+          return errorResponse("Album not found", 404);
+        }
+        scanner.resetAlbumSettings(album);
+        return jsonResponse({ message: "Album settings removed" });
+      },
+    },
+
+    // 动态路由：获取相册照片（包括子相册）
     "/api/albums/:id/photos": (req) => {
       const album = scanner.getAlbum(req.params.id);
       if (!album) {
         return errorResponse("Album not found", 404);
       }
-      const photos = scanner.getAlbumPhotos(album.name);
-      return jsonResponse({ album, photos });
+      const photos = scanner.getAlbumPhotos(album);
+      return jsonResponse({ album: { ...album, path: undefined }, photos });
     },
 
     // 动态路由：获取人物照片
     "/api/people/:name/photos": (req) => {
       const personName = decodeURIComponent(req.params.name);
-      const photos = scanner.getPersonPhotos(personName);
+      const photos = scanner.getPersonPhotos(personName, rootsParam(req));
       return jsonResponse({ person: personName, photos });
     },
 
-    // 动态路由：获取地点照片
-    "/api/locations/:name/photos": (req) => {
-      const locationName = decodeURIComponent(req.params.name);
-      const photos = scanner.getLocationPhotos(locationName);
-      return jsonResponse({ location: locationName, photos });
-    },
-
     // 统计信息
-    "/api/stats": () => {
-      const photos = scanner.getAllPhotos();
-      const years = [...new Set(photos.map(p => p.takenAt?.getFullYear()).filter(Boolean))].sort();
+    "/api/stats": (req) => {
+      const roots = rootsParam(req);
+      const years = scanner.getPhotoYears(roots);
 
       return jsonResponse({
-        totalPhotos: photos.length,
-        totalAlbums: scanner.getAllAlbums().length,
-        totalPeople: scanner.getAllPeople().length,
-        totalLocations: scanner.getAllLocations().length,
+        totalPhotos: scanner.getPhotoCount(roots),
+        totalAlbums: scanner.getAllAlbums(roots).length,
+        totalPeople: scanner.getAllPeople(roots).length,
+        totalLocations: scanner.getLocationCount(roots),
         yearRange: years.length > 0 ? { start: years[0], end: years[years.length - 1] } : null,
         storiesCount: cachedStories.length,
         scanStatus: scanner.getScanStatus(),
       });
     },
 
-    // 重新扫描照片
-    "/api/rescan": async () => {
-      const status = scanner.getScanStatus();
-      if (status.scanning) {
-        return errorResponse("Scan already in progress", 409);
+    // 在后台重新扫描照片，立即返回任务 ID，进度见 /api/scan/events
+    "/api/rescan": () => {
+      const job = scanner.startScan();
+      if (!job) {
+        return jsonResponse({ error: "Scan already in progress", jobId: scanner.getScanStatus().jobId }, 409);
       }
-      await scanner.scan();
-      if (storyGenerator) {
-        cachedStories = storyGenerator.generateMultipleStories(10);
-      } else {
-        storyGenerator = new StoryGenerator(scanner);
+      job.done.then(() => {
+        storyGenerator ??= new StoryGenerator(scanner);
         cachedStories = storyGenerator.generateMultipleStories(10);
-      }
-      return jsonResponse({ message: "Rescan complete", stats: {
-        photos: scanner.getAllPhotos().length,
-        albums: scanner.getAllAlbums().length,
-      }});
+      }).catch(error => console.error("Rescan failed:", error));
+      return jsonResponse({ jobId: job.jobId }, 202);
     },
     
     // 扫描状态
     "/api/scan/status": () => {
       return jsonResponse(scanner.getScanStatus());
     },
+
+    // 扫描错误（按时间倒序分页），包括各阶段的错误数
+    "/api/scan/errors": (req) => {
+      const params = new URL(req.url).searchParams;
+      const limit = Math.min(parseInt(params.get("limit") || "100") || 100, 500);
+      const offset = parseInt(params.get("offset") || "0") || 0;
+      return jsonResponse(scanner.getScanErrors(scanErrorFilterParam(req), limit, offset, rootsParam(req)));
+    },
+
+    // 在后台重新解析出错的文件，筛选条件与 /api/scan/errors 相同
+    "/api/scan/errors/retry": {
+      POST: (req) => {
+        const retry = scanner.retryScanErrors(scanErrorFilterParam(req), rootsParam(req));
+        retry.done.catch(error => console.error("Retry failed:", error));
+        return jsonResponse({ retrying: retry.paths }, 202);
+      },
+    },
+
+    // 扫描进度（Server-Sent Events）：连接后先发送当前状态，之后推送 status、directory、error、complete 事件
+    "/api/scan/events": (req, server) => {
+      server.timeout(req, 0); // 长连接，不受空闲超时限制
+      const encoder = new TextEncoder();
+      let close = () => {};
+
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          const write = (chunk: string) => {
+            try {
+              controller.enqueue(encoder.encode(chunk));
+            } catch {
+              close();
+            }
+          };
+          const send = (event: ScanEvent) => write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+
+          send({ type: "status", status: scanner.getScanStatus() });
+          const unsubscribe = scanner.onScanEvent(send);
+          // 注释行保持连接，代理不会因为长时间没有数据而断开
+          const heartbeat = setInterval(() => write(": ping\n\n"), SSE_HEARTBEAT_MS);
+          close = () => {
+            unsubscribe();
+            clearInterval(heartbeat);
+          };
+          req.signal.addEventListener("abort", () => close());
+        },
+        cancel() {
+          close();
+        },
+      });
+
+      return new Response(stream, {
+        headers: {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+        },
+      });
+    },
   },
 
   development: {
@@ -254,4 +698,7 @@ Bun.serve({
 });
 
 console.log(`Photo gallery server running at http://localhost:${PORT}`);
-console.log(`Photos directory: ${PHOTOS_DIR}`);
+for (const library of LIBRARIES) {
+  console.log(`Library "${library.name}": ${library.path}`);
+}
+console.log(`Data directory: ${DATA_DIR}`);
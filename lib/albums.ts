@@ -0,0 +1,81 @@
+// 相册封面的自动选择和相册排序。
+// 没有手动设置封面时，按评分、人物、分辨率等给相册中的照片打分，选出最适合作为封面的一张；
+// 分数相同时选择靠近相册中间的照片（目录中的第一张常常是试拍或没对好焦的）
+import type { Album, AlbumSort } from "./types";
+
+// 低于这个像素数的图片（聊天软件压缩过的、截图缩小的）不适合做封面
+const MIN_COVER_PIXELS = 1_000_000;
+
+const SCREENSHOT_PATTERN = /^(screenshot|screen shot|屏幕截图|截屏)/i;
+
+// 选择封面用到的照片字段
+export interface CoverCandidate {
+  id: string;
+  mediaType: string;
+  filename: string;
+  rating?: number; // -1 表示已拒绝
+  width?: number;  // 摆正后的尺寸
+  height?: number;
+  faces: number;   // 人脸框数量
+  people: number;  // 已命名的人物数量
+}
+
+export function pickCoverPhoto(candidates: CoverCandidate[]): string | undefined {
+  const middle = (candidates.length - 1) / 2;
+  let best: { id: string; score: number; distance: number } | undefined;
+
+  candidates.forEach((candidate, i) => {
+    const score = coverScore(candidate);
+    const distance = Math.abs(i - middle);
+    if (!best || score > best.score || (score === best.score && distance < best.distance)) {
+      best = { id: candidate.id, score, distance };
+    }
+  });
+  return best?.id;
+}
+
+function coverScore(photo: CoverCandidate): number {
+  let score = 0;
+
+  // 视频只有封面帧
+  if (photo.mediaType === "video") score -= 5;
+
+  if (photo.rating === -1) {
+    score -= 10;
+  } else if (photo.rating) {
+    score += photo.rating * 2;
+  }
+
+  // 有认识的人的照片优先，其次是有人脸的
+  if (photo.people > 0) {
+    score += 3 + Math.min(photo.people - 1, 2);
+  } else if (photo.faces > 0) {
+    score += 1;
+  }
+
+  // 封面卡片是横向的
+  if (photo.width && photo.height) {
+    if (photo.width * photo.height < MIN_COVER_PIXELS) score -= 2;
+    if (photo.width >= photo.height) score += 1;
+  }
+
+  if (SCREENSHOT_PATTERN.test(photo.filename)) score -= 3;
+  return score;
+}
+
+// 显示的标题：设置的标题，否则为目录名
+export function albumTitle(album: Album): string {
+  return album.title || album.name.split("/").pop()!;
+}
+
+// date 为最近的在前，size 为照片多的在前，相同时按名称
+export function sortAlbums(albums: Album[], sort: AlbumSort): Album[] {
+  const byName = (a: Album, b: Album) => albumTitle(a).localeCompare(albumTitle(b), undefined, { numeric: true });
+  const latest = (album: Album) => album.dateRange?.end.getTime() ?? Number.NEGATIVE_INFINITY;
+
+  return [...albums].sort((a, b) => {
+    if (sort === "date" && latest(a) !== latest(b)) return latest(b) > latest(a) ? 1 : -1;
+    if (sort === "size" && a.photoCount !== b.photoCount) return b.photoCount - a.photoCount;
+    return byName(a, b);
+  });
+}
@@ -0,0 +1,40 @@
+// ISO BMFF 盒子结构读取（MP4 / MOV 视频和 HEIF 图片共用）
+
+export interface Box {
+  type: string;
+  start: number;     // 内容起始位置 (相对于传入的视图)
+  end: number;       // 盒子结束位置
+}
+
+// 遍历 [start, end) 范围内的盒子，超出范围的盒子视为截断并停止
+export function* readBoxes(view: DataView, start: number, end: number): Generator<Box> {
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = readType(view, offset + 4);
+    let headerSize = 8;
+
+    if (size === 1) {
+      if (offset + 16 > end) return;
+      size = Number(view.getBigUint64(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+
+    if (size < headerSize || offset + size > end) return;
+
+    yield { type, start: offset + headerSize, end: offset + size };
+    offset += size;
+  }
+}
+
+export function readType(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3),
+  );
+}
@@ -0,0 +1,1316 @@
+// 照片索引数据库 (bun:sqlite)
+import { Database } from "bun:sqlite";
+import { sep } from "node:path";
+import { localDate } from "./dates";
+import type { CoverCandidate } from "./albums";
+import type { LocationPhoto, PlacePoint, PlaceRecord } from "./locations";
+import type { Photo, PhotoStack, Place, Album, Person, LocationFilter, ScanError, UnnamedFace } from "./types";
+
+// 每个迁移把 schema 升级一个版本（PRAGMA user_version）
+// 只能在末尾追加新迁移，不能修改已发布的迁移
+const MIGRATIONS: Array<(db: Database) => void> = [
+  // v1: 初始结构
+  (db) => db.run(`
+    CREATE TABLE meta (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL
+    );
+
+    CREATE TABLE photos (
+      id TEXT PRIMARY KEY,
+      path TEXT NOT NULL UNIQUE,
+      mtime REAL,               -- NULL 表示解析失败，下次扫描重试
+      album TEXT,
+      media_type TEXT NOT NULL DEFAULT 'photo',
+      taken_at INTEGER,         -- 毫秒时间戳
+      taken_year INTEGER,
+      taken_month INTEGER,      -- 1-12
+      taken_day INTEGER,
+      location_name TEXT,
+      latitude REAL,
+      longitude REAL,
+      content_hash TEXT,
+      data TEXT NOT NULL        -- 其余字段 (JSON)
+    );
+    CREATE INDEX idx_photos_album ON photos(album);
+    CREATE INDEX idx_photos_month_day ON photos(taken_month, taken_day);
+    CREATE INDEX idx_photos_year ON photos(taken_year);
+    CREATE INDEX idx_photos_location ON photos(location_name);
+    CREATE INDEX idx_photos_hash ON photos(content_hash);
+
+    CREATE TABLE faces (
+      photo_id TEXT NOT NULL,
+      name TEXT NOT NULL
+    );
+    CREATE INDEX idx_faces_photo ON faces(photo_id);
+    CREATE INDEX idx_faces_name ON faces(name);
+
+    CREATE TABLE tags (
+      photo_id TEXT NOT NULL,
+      tag TEXT NOT NULL
+    );
+    CREATE INDEX idx_tags_photo ON tags(photo_id);
+    CREATE INDEX idx_tags_tag ON tags(tag);
+
+    CREATE TABLE albums (
+      name TEXT PRIMARY KEY,
+      id TEXT NOT NULL UNIQUE,
+      path TEXT NOT NULL,
+      cover_photo TEXT,
+      photo_count INTEGER NOT NULL,
+      start_date INTEGER,
+      end_date INTEGER
+    );
+
+    CREATE TABLE locations (
+      name TEXT PRIMARY KEY,
+      latitude REAL NOT NULL,   -- 第一张照片的坐标
+      longitude REAL NOT NULL
+    );
+  `),
+
+  // v2: 照片库根目录（索引移出照片目录后，按库名记录挂载路径）
+  (db) => db.run(`
+    CREATE TABLE roots (
+      name TEXT PRIMARY KEY,
+      path TEXT NOT NULL
+    );
+    ALTER TABLE photos ADD COLUMN root TEXT NOT NULL DEFAULT '';
+    CREATE INDEX idx_photos_root ON photos(root);
+  `),
+
+  // v3: 多个照片库。相册按库区分（不同库可以有同名目录），库可以单独停用
+  (db) => db.run(`
+    ALTER TABLE roots ADD COLUMN enabled INTEGER NOT NULL DEFAULT 1;
+
+    CREATE TABLE albums_v3 (
+      root TEXT NOT NULL,
+      name TEXT NOT NULL,
+      id TEXT NOT NULL UNIQUE,
+      path TEXT NOT NULL,
+      cover_photo TEXT,
+      photo_count INTEGER NOT NULL,
+      start_date INTEGER,
+      end_date INTEGER,
+      PRIMARY KEY (root, name)
+    );
+    INSERT INTO albums_v3 (root, name, id, path, cover_photo, photo_count, start_date, end_date)
+      SELECT COALESCE((SELECT root FROM photos WHERE photos.album = albums.name LIMIT 1), ''),
+        name, id, path, cover_photo, photo_count, start_date, end_date
+      FROM albums;
+    DROP TABLE albums;
+    ALTER TABLE albums_v3 RENAME TO albums;
+
+    DROP INDEX idx_photos_album;
+    CREATE INDEX idx_photos_album ON photos(root, album);
+  `),
+
+  // v4: 保存人脸框和未命名的人脸。旧索引只有人名，有人脸的照片在下次扫描时重新解析
+  (db) => db.run(`
+    CREATE TABLE faces_v4 (
+      photo_id TEXT NOT NULL,
+      face_id TEXT,             -- Synology 人脸 ID
+      name TEXT,                -- NULL 表示未命名
+      x REAL,                   -- 相对坐标 (0-1)，来源没有人脸框时为 NULL
+      y REAL,
+      w REAL,
+      h REAL
+    );
+    INSERT INTO faces_v4 (photo_id, name) SELECT photo_id, name FROM faces;
+    UPDATE photos SET mtime = NULL WHERE id IN (SELECT photo_id FROM faces);
+    DROP TABLE faces;
+    ALTER TABLE faces_v4 RENAME TO faces;
+    CREATE INDEX idx_faces_photo ON faces(photo_id);
+    CREATE INDEX idx_faces_name ON faces(name);
+  `),
+
+  // v5: 人物设置（改名、合并、别名、隐藏、生日）。faces.name 为应用设置后的名字，
+  // source_name 保留元数据中的原始名字，设置变化时据此重新计算
+  (db) => db.run(`
+    CREATE TABLE people (
+      name TEXT PRIMARY KEY,
+      hidden INTEGER NOT NULL DEFAULT 0,
+      birthday TEXT             -- YYYY-MM-DD
+    );
+    CREATE TABLE person_aliases (
+      alias TEXT PRIMARY KEY,   -- 元数据中出现的名字
+      person TEXT NOT NULL      -- 显示的名字
+    );
+    CREATE INDEX idx_person_aliases_person ON person_aliases(person);
+
+    ALTER TABLE faces ADD COLUMN source_name TEXT;
+    UPDATE faces SET source_name = name;
+  `),
+
+  // v6: taken_year/month/day 改为拍摄地的当地日期（之前按服务器时区计算）。
+  // 需要重新读取 EXIF 的时区信息，所有文件在下次扫描时重新解析
+  (db) => db.run(`
+    UPDATE photos SET mtime = NULL;
+  `),
+
+  // v7: 记录拍摄时间的来源和可信度，没有记录的照片在下次扫描时重新推断
+  (db) => db.run(`
+    UPDATE photos SET mtime = NULL WHERE json_extract(data, '$.dateSource') IS NULL;
+  `),
+
+  // v8: 感知哈希，用于查找近似重复。没有哈希的照片在下次扫描时重新解析
+  (db) => db.run(`
+    UPDATE photos SET mtime = NULL
+    WHERE json_extract(data, '$.perceptualHash') IS NULL
+      AND (media_type = 'photo' OR json_extract(data, '$.thumbnail') IS NOT NULL);
+  `),
+
+  // v9: 堆叠 (Live Photo、RAW+JPEG、连拍)。stack_id 为主照片 ID，列表中只显示主照片。
+  // 视频和 Apple 设备的照片需要重新读取关联标识
+  (db) => db.run(`
+    ALTER TABLE photos ADD COLUMN stack_id TEXT;
+    ALTER TABLE photos ADD COLUMN stack TEXT;   -- PhotoStack JSON
+    CREATE INDEX idx_photos_stack ON photos(stack_id);
+    UPDATE photos SET mtime = NULL
+    WHERE media_type = 'video' OR json_extract(data, '$.camera') LIKE 'Apple %';
+  `),
+
+  // v10: 读取 XMP 附属文件和内嵌的 XMP / IPTC，需要重新解析所有文件
+  (db) => db.run(`UPDATE photos SET mtime = NULL`),
+
+  // v11: 元数据提供者，读取 Google Takeout 附属文件并记录每个字段的来源
+  (db) => db.run(`UPDATE photos SET mtime = NULL`),
+
+  // v12: 离线反向地理编码，结果按坐标缓存。有坐标的照片重新解析以补全国家、省份、城市
+  (db) => db.run(`
+    CREATE TABLE geocode_cache (
+      key TEXT PRIMARY KEY,   -- 精确到 0.01° 的坐标
+      place TEXT              -- Place JSON，NULL 表示附近没有城市
+    );
+    UPDATE photos SET mtime = NULL WHERE latitude IS NOT NULL;
+  `),
+
+  // v13: 地点层级（国家 → 省份 → 城市）和 GPS 聚类得到的地点，取代按地名记录的 locations 表。
+  // place_id 在每次扫描后重新聚类时更新。Synology 照片重新解析以读取详细地址
+  (db) => db.run(`
+    ALTER TABLE photos ADD COLUMN country TEXT;
+    ALTER TABLE photos ADD COLUMN province TEXT;
+    ALTER TABLE photos ADD COLUMN city TEXT;
+    ALTER TABLE photos ADD COLUMN place_id INTEGER;
+    UPDATE photos SET
+      country = json_extract(data, '$.country'),
+      province = json_extract(data, '$.province'),
+      city = json_extract(data, '$.city');
+    CREATE INDEX idx_photos_city ON photos(country, city);
+    CREATE INDEX idx_photos_place ON photos(place_id);
+
+    CREATE TABLE places (
+      id INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      country TEXT,
+      province TEXT,
+      city TEXT,
+      latitude REAL NOT NULL,   -- 质心
+      longitude REAL NOT NULL,
+      north REAL NOT NULL,
+      south REAL NOT NULL,
+      east REAL NOT NULL,
+      west REAL NOT NULL
+    );
+
+    DROP TABLE locations;
+    UPDATE photos SET mtime = NULL WHERE json_extract(data, '$.fieldSources.country') = 'synology';
+  `),
+
+  // v14: 记录 Synology 各尺寸的缩略图（之前只记录最大的一个）
+  (db) => db.run(`
+    UPDATE photos SET mtime = NULL WHERE json_extract(data, '$.thumbnail') IS NOT NULL;
+  `),
+
+  // v15: 记录 EXIF 方向（视频为轨道旋转）和摆正后的显示尺寸，需要重新解析所有文件
+  (db) => db.run(`UPDATE photos SET mtime = NULL`),
+
+  // v16: 扫描错误，每个文件或目录的每个阶段一条。重新解析所有文件以记录之前被忽略的错误
+  (db) => db.run(`
+    CREATE TABLE scan_errors (
+      path TEXT NOT NULL,     -- 文件或目录的绝对路径
+      stage TEXT NOT NULL,
+      root TEXT NOT NULL,
+      message TEXT NOT NULL,
+      time INTEGER NOT NULL,
+      PRIMARY KEY (path, stage)
+    );
+    CREATE INDEX idx_scan_errors_root ON scan_errors(root, stage);
+    UPDATE photos SET mtime = NULL;
+  `),
+
+  // v17: 相册层级。parent 为上级目录的相册名，顶层相册为 NULL；
+  // 照片数和日期范围改为包括子相册，只有子目录的相册在下次扫描时补上
+  (db) => db.run(`
+    ALTER TABLE albums ADD COLUMN parent TEXT;
+    UPDATE albums SET parent = NULLIF(rtrim(rtrim(name, replace(name, '/', '')), '/'), '');
+    CREATE INDEX idx_albums_parent ON albums(root, parent);
+  `),
+
+  // v18: 相册设置（标题、说明、封面），与扫描得到的 albums 分开保存，重新扫描不会覆盖
+  (db) => db.run(`
+    CREATE TABLE album_settings (
+      root TEXT NOT NULL,
+      name TEXT NOT NULL,
+      title TEXT,
+      description TEXT,
+      cover_photo TEXT,       -- 手动选择的封面，照片不在相册中时使用自动选择的
+      PRIMARY KEY (root, name)
+    );
+  `),
+
+  // v19: 地点 ID 不再重复使用。重新聚类时沿用匹配的已有地点，新地点的 ID 总是比删除过的都大
+  (db) => db.run(`
+    CREATE TABLE places_v19 (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      country TEXT,
+      province TEXT,
+      city TEXT,
+      latitude REAL NOT NULL,
+      longitude REAL NOT NULL,
+      north REAL NOT NULL,
+      south REAL NOT NULL,
+      east REAL NOT NULL,
+      west REAL NOT NULL
+    );
+    INSERT INTO places_v19 SELECT id, name, country, province, city, latitude, longitude, north, south, east, west FROM places;
+    DROP TABLE places;
+    ALTER TABLE places_v19 RENAME TO places;
+    CREATE INDEX idx_places_city ON places(country, city);
+  `),
+];
+
+interface PhotoRow {
+  id: string;
+  path: string;
+  data: string;
+  stack: string | null;
+}
+
+interface AlbumRow {
+  root: string;
+  name: string;
+  parent: string | null;
+  id: string;
+  path: string;
+  cover_photo: string | null;
+  photo_count: number;
+  start_date: number | null;
+  end_date: number | null;
+  child_count: number;
+  title: string | null;
+  description: string | null;
+  custom_cover: string | null;
+}
+
+// 已索引文件的状态
+export interface IndexedFile {
+  id: string;
+  path: string;
+  mtime: number | null;
+}
+
+export interface LibraryRoot {
+  name: string;
+  path: string;
+  enabled: boolean; // 停用的库保留索引，但不扫描也不出现在查询结果中
+}
+
+interface RootRow {
+  name: string;
+  path: string;
+  enabled: number;
+}
+
+// 人物设置的修改（未提供的字段保持不变）
+export interface PersonUpdate {
+  name?: string;          // 改名
+  aliases?: string[];     // 替换别名列表
+  hidden?: boolean;
+  birthday?: string | null;
+}
+
+// 扫描错误的查询条件
+export interface ScanErrorFilter {
+  roots: string[];
+  stage?: string;
+  path?: string; // 路径中包含的文本
+}
+
+interface ScanErrorRow {
+  path: string;
+  stage: string;
+  root: string;
+  message: string;
+  time: number;
+}
+
+// 相册设置的修改：未提供的字段保持不变，null 恢复默认
+export interface AlbumUpdate {
+  title?: string | null;
+  description?: string | null;
+  coverPhoto?: string | null;
+}
+
+export interface AlbumSummary {
+  photoCount: number;
+  start?: number;
+  end?: number;
+}
+
+const PHOTO_COLUMNS = "id, path, data, stack";
+
+// 与 locations.ts 的 cityKey 相同，photos 和 places 表都有这三列
+const CITY_KEY = "COALESCE(country, '') || char(10) || COALESCE(province, '') || char(10) || COALESCE(city, '')";
+
+// data 中保存绝对路径的缩略图字段，照片库移动时一起改写
+const THUMBNAIL_FIELDS = ["$.thumbnail", "$.thumbnails.sm", "$.thumbnails.m", "$.thumbnails.xl"];
+
+// 相册和设置。手动选择的封面只在照片仍然属于这个相册（包括子相册）时使用
+const ALBUM_QUERY = `
+  SELECT a.*, s.title, s.description,
+    (SELECT COUNT(*) FROM albums c WHERE c.root = a.root AND c.parent = a.name) AS child_count,
+    (SELECT id FROM photos p WHERE p.id = s.cover_photo AND p.root = a.root
+      AND (p.album = a.name OR (p.album >= a.name || '/' AND p.album < a.name || '0'))) AS custom_cover
+  FROM albums a
+  LEFT JOIN album_settings s ON s.root = a.root AND s.name = a.name
+`;
+
+// 相册 ID 由照片库和相册名确定，重新扫描后保持不变
+export function albumId(rootName: string, albumName: string): string {
+  return Buffer.from(`${rootName}:${albumName}`).toString("base64url");
+}
+
+// 上级目录的相册名，顶层相册返回 undefined
+export function parentAlbumName(albumName: string): string | undefined {
+  const separator = albumName.lastIndexOf("/");
+  return separator > 0 ? albumName.slice(0, separator) : undefined;
+}
+
+export class PhotoDatabase {
+  private db: Database;
+  private aliases: Map<string, string> = new Map(); // 原始名字 -> 显示名字
+
+  constructor(dbPath: string) {
+    this.db = new Database(dbPath, { create: true });
+    this.db.run("PRAGMA journal_mode = WAL");
+    this.db.run("PRAGMA synchronous = NORMAL");
+    this.migrate();
+    this.loadAliases();
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  // 升级 schema 到最新版本
+  private migrate(): void {
+    const { user_version: current } = this.db.query("PRAGMA user_version").get() as { user_version: number };
+
+    if (current > MIGRATIONS.length) {
+      throw new Error(`Index database schema v${current} is newer than supported v${MIGRATIONS.length}`);
+    }
+    if (current === MIGRATIONS.length) return;
+
+    this.db.transaction(() => {
+      for (let version = current; version < MIGRATIONS.length; version++) {
+        MIGRATIONS[version]!(this.db);
+        this.db.run(`PRAGMA user_version = ${version + 1}`);
+      }
+    })();
+    console.log(`Migrated index database from v${current} to v${MIGRATIONS.length}`);
+  }
+
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
+
+  // 元数据
+  getMeta(key: string): string | undefined {
+    const row = this.db.query("SELECT value FROM meta WHERE key = ?").get(key) as { value: string } | null;
+    return row?.value;
+  }
+
+  setMeta(key: string, value: string): void {
+    this.db.query("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)").run(key, value);
+  }
+
+  // 照片库根目录
+  getRoot(name: string): LibraryRoot | undefined {
+    const row = this.db.query("SELECT name, path, enabled FROM roots WHERE name = ?").get(name) as RootRow | null;
+    return row ? { name: row.name, path: row.path, enabled: row.enabled !== 0 } : undefined;
+  }
+
+  saveRoot(root: LibraryRoot): void {
+    this.db.query("INSERT OR REPLACE INTO roots (name, path, enabled) VALUES (?, ?, ?)")
+      .run(root.name, root.path, root.enabled ? 1 : 0);
+  }
+
+  setRootEnabled(name: string, enabled: boolean): void {
+    this.db.query("UPDATE roots SET enabled = ? WHERE name = ?").run(enabled ? 1 : 0, name);
+  }
+
+  // 把还没有归属的照片和相册（旧版索引）分配给指定的库；
+  // 指定 underPath 时只分配该目录下的
+  claimUnassignedPhotos(rootName: string, underPath?: string): number {
+    return this.transaction(() => {
+      if (!underPath) {
+        this.db.query("UPDATE albums SET root = ? WHERE root = ''").run(rootName);
+        return this.db.query("UPDATE photos SET root = ? WHERE root = ''").run(rootName).changes;
+      }
+
+      const condition = "root = '' AND (path = ?2 OR substr(path, 1, length(?2) + 1) = ?2 || ?3)";
+      this.db.query(`UPDATE albums SET root = ?1 WHERE ${condition}`).run(rootName, underPath, sep);
+      return this.db.query(`UPDATE photos SET root = ?1 WHERE ${condition}`).run(rootName, underPath, sep).changes;
+    });
+  }
+
+  // 照片库挂载路径变化：只改写路径前缀，不需要重新扫描
+  relocateRoot(name: string, oldPath: string, newPath: string): void {
+    this.transaction(() => {
+      this.db.query(`
+        UPDATE photos SET path = ?2 || substr(path, length(?1) + 1)
+        WHERE root = ?3 AND substr(path, 1, length(?1) + 1) = ?1 || ?4
+      `).run(oldPath, newPath, name, sep);
+      // data 中 @eaDir 缩略图的绝对路径
+      for (const field of THUMBNAIL_FIELDS) {
+        this.db.query(`
+          UPDATE photos SET data = json_set(data, ?5, ?2 || substr(json_extract(data, ?5), length(?1) + 1))
+          WHERE root = ?3 AND substr(json_extract(data, ?5), 1, length(?1) + 1) = ?1 || ?4
+        `).run(oldPath, newPath, name, sep, field);
+      }
+      this.db.query(`
+        UPDATE albums SET path = ?2 || substr(path, length(?1) + 1)
+        WHERE root = ?3 AND (path = ?1 OR substr(path, 1, length(?1) + 1) = ?1 || ?4)
+      `).run(oldPath, newPath, name, sep);
+      this.db.query("UPDATE roots SET path = ? WHERE name = ?").run(newPath, name);
+    });
+  }
+
+  // 写入或替换一张照片（包括人物和标签）
+  savePhoto(photo: Photo, mtime: number | null): void {
+    // 堆叠由 saveStacks 单独维护
+    const { id, path, stack, ...rest } = photo;
+    const takenAt = photo.takenAt;
+    const date = localDate(photo);
+
+    this.transaction(() => {
+      this.db.query("DELETE FROM faces WHERE photo_id = ?").run(id);
+      this.db.query("DELETE FROM tags WHERE photo_id = ?").run(id);
+      this.db.query(`
+        INSERT OR REPLACE INTO photos (
+          id, path, root, mtime, album, media_type, taken_at, taken_year, taken_month, taken_day,
+          location_name, latitude, longitude, country, province, city, content_hash, data
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        id,
+        path,
+        photo.root ?? "",
+        mtime,
+        photo.album ?? null,
+        photo.mediaType || "photo",
+        takenAt ? takenAt.getTime() : null,
+        date?.year ?? null,
+        date?.month ?? null,
+        date?.day ?? null,
+        photo.locationName ?? null,
+        photo.latitude ?? null,
+        photo.longitude ?? null,
+        photo.country ?? null,
+        photo.province ?? null,
+        photo.city ?? null,
+        photo.contentHash ?? null,
+        JSON.stringify(rest),
+      );
+
+      // 人脸框（包括未命名的），以及没有人脸框的人名
+      const insertFace = this.db.query(`
+        INSERT INTO faces (photo_id, face_id, source_name, name, x, y, w, h)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      const namedFaces = new Set<string>();
+      for (const face of photo.faces || []) {
+        const name = face.name ? this.personName(face.name) : null;
+        insertFace.run(id, face.id, face.name ?? null, name, face.x, face.y, face.w, face.h);
+        if (face.name) namedFaces.add(face.name);
+      }
+      for (const name of new Set(photo.people || [])) {
+        if (!namedFaces.has(name)) {
+          insertFace.run(id, null, name, this.personName(name), null, null, null, null);
+        }
+      }
+      for (const tag of new Set(photo.tags || [])) {
+        this.db.query("INSERT INTO tags (photo_id, tag) VALUES (?, ?)").run(id, tag);
+      }
+    });
+  }
+
+  deletePhoto(id: string): void {
+    this.transaction(() => {
+      this.db.query("DELETE FROM faces WHERE photo_id = ?").run(id);
+      this.db.query("DELETE FROM tags WHERE photo_id = ?").run(id);
+      this.db.query("DELETE FROM photos WHERE id = ?").run(id);
+    });
+  }
+
+  // 文件状态查询
+  getIndexedFile(path: string): IndexedFile | undefined {
+    const row = this.db.query("SELECT id, path, mtime FROM photos WHERE path = ?").get(path) as IndexedFile | null;
+    return row ?? undefined;
+  }
+
+  getIndexedFiles(rootName: string): IndexedFile[] {
+    return this.db.query("SELECT id, path, mtime FROM photos WHERE root = ?").all(rootName) as IndexedFile[];
+  }
+
+  // 内容指纹与其他照片相同、还没有完整内容哈希的照片
+  getUnconfirmedHashTwins(roots: string[]): Array<{ id: string; path: string; root: string }> {
+    return this.db.query(`
+      SELECT id, path, root FROM photos
+      WHERE ${inRoots(roots)} AND json_extract(data, '$.fullHash') IS NULL
+        AND content_hash IN (
+          SELECT content_hash FROM photos WHERE content_hash IS NOT NULL GROUP BY content_hash HAVING COUNT(*) > 1
+        )
+    `).all(...roots) as Array<{ id: string; path: string; root: string }>;
+  }
+
+  setFullHash(id: string, hash: string): void {
+    this.db.query("UPDATE photos SET data = json_set(data, '$.fullHash', ?) WHERE id = ?").run(hash, id);
+  }
+
+  hasPhoto(id: string): boolean {
+    return this.db.query("SELECT 1 FROM photos WHERE id = ?").get(id) !== null;
+  }
+
+  getPhotoCount(roots: string[]): number {
+    const row = this.db.query(`SELECT COUNT(*) AS count FROM photos WHERE ${inRoots(roots)} AND ${isPrimary()}`)
+      .get(...roots) as { count: number };
+    return row.count;
+  }
+
+  // 照片查询（roots 参数限定查询范围内的照片库）。列表只包含主照片，堆叠中的其他文件通过 getStackMembers 查询
+  getPhoto(id: string): Photo | undefined {
+    const row = this.db.query(`SELECT ${PHOTO_COLUMNS} FROM photos WHERE id = ?`).get(id) as PhotoRow | null;
+    return row ? this.toPhoto(row) : undefined;
+  }
+
+  getAllPhotos(roots: string[]): Photo[] {
+    return this.queryPhotos(`SELECT ${PHOTO_COLUMNS} FROM photos WHERE ${inRoots(roots)} AND ${isPrimary()} ORDER BY rowid`, ...roots);
+  }
+
+  // 目录（或文件本身）下的所有照片
+  getPhotosUnder(path: string): Photo[] {
+    const prefix = path + sep;
+    return this.queryPhotos(
+      `SELECT ${PHOTO_COLUMNS} FROM photos WHERE path = ? OR (path > ? AND path < ?)`,
+      path, prefix, prefix + "\uffff",
+    );
+  }
+
+  // 相册及其子相册的照片，按目录排列（相册本身的照片在前）
+  getAlbumPhotos(rootName: string, albumName: string): Photo[] {
+    return this.queryPhotos(
+      `SELECT ${PHOTO_COLUMNS} FROM photos WHERE root = ?1 AND ${inAlbumTree()} AND ${isPrimary()} ORDER BY album, rowid`,
+      rootName, albumName,
+    );
+  }
+
+  // 目录中的所有文件（包括堆叠成员），album 为空表示库的根目录
+  getDirectoryPhotos(rootName: string, albumName: string | undefined): Photo[] {
+    return this.queryPhotos(
+      `SELECT ${PHOTO_COLUMNS} FROM photos WHERE root = ? AND album IS ? ORDER BY rowid`,
+      rootName, albumName ?? null,
+    );
+  }
+
+  // 堆叠中除主照片以外的文件
+  getStackMembers(primaryId: string): Photo[] {
+    return this.queryPhotos(
+      `SELECT ${PHOTO_COLUMNS} FROM photos WHERE stack_id = ?1 AND id != ?1 ORDER BY taken_at, rowid`,
+      primaryId,
+    );
+  }
+
+  // 替换目录中的堆叠
+  saveStacks(rootName: string, albumName: string | undefined, stacks: Map<string, PhotoStack>): void {
+    this.transaction(() => {
+      this.db.query("UPDATE photos SET stack_id = NULL, stack = NULL WHERE root = ? AND album IS ? AND stack_id IS NOT NULL")
+        .run(rootName, albumName ?? null);
+      const update = this.db.query("UPDATE photos SET stack_id = ?, stack = ? WHERE id = ?");
+      for (const [id, stack] of stacks) {
+        update.run(stack.id, JSON.stringify(stack), id);
+      }
+    });
+  }
+
+  getPersonPhotos(personName: string, roots: string[]): Photo[] {
+    return this.queryPhotos(
+      `SELECT ${PHOTO_COLUMNS} FROM photos
+      WHERE ${inRoots(roots)} AND ${isPrimary()} AND id IN (SELECT photo_id FROM faces WHERE name = ?)`,
+      ...roots, personName,
+    );
+  }
+
+  getLocationPhotos(filter: LocationFilter, roots: string[]): Photo[] {
+    const { where, params } = locationConditions(filter);
+    return this.queryPhotos(
+      `SELECT ${PHOTO_COLUMNS} FROM photos WHERE ${inRoots(roots)} AND ${isPrimary()} AND ${where} ORDER BY taken_at DESC, rowid`,
+      ...roots, ...params,
+    );
+  }
+
+  // month 为 1-12
+  getPhotosByDate(month: number, day: number, roots: string[]): Photo[] {
+    return this.queryPhotos(
+      `SELECT ${PHOTO_COLUMNS} FROM photos WHERE ${inRoots(roots)} AND ${isPrimary()} AND taken_month = ? AND taken_day = ?`,
+      ...roots, month, day,
+    );
+  }
+
+  getPhotosByMonths(months: number[], roots: string[]): Photo[] {
+    if (months.length === 0) return [];
+    return this.queryPhotos(
+      `SELECT ${PHOTO_COLUMNS} FROM photos
+      WHERE ${inRoots(roots)} AND ${isPrimary()} AND taken_month IN (${placeholders(months.length)})`,
+      ...roots, ...months,
+    );
+  }
+
+  getPhotosByYear(year: number, roots: string[]): Photo[] {
+    return this.queryPhotos(
+      `SELECT ${PHOTO_COLUMNS} FROM photos WHERE ${inRoots(roots)} AND ${isPrimary()} AND taken_year = ?`,
+      ...roots, year,
+    );
+  }
+
+  // 同时包含所有指定人物的照片
+  getPhotosWithPeople(people: string[], roots: string[]): Photo[] {
+    const names = [...new Set(people)];
+    if (names.length === 0) return [];
+    return this.queryPhotos(
+      `SELECT ${PHOTO_COLUMNS} FROM photos WHERE ${inRoots(roots)} AND ${isPrimary()} AND id IN (
+        SELECT photo_id FROM faces WHERE name IN (${placeholders(names.length)})
+        GROUP BY photo_id HAVING COUNT(DISTINCT name) = ?
+      )`,
+      ...roots, ...names, names.length,
+    );
+  }
+
+  getRandomPhotos(limit: number, roots: string[]): Photo[] {
+    return this.queryPhotos(
+      `SELECT ${PHOTO_COLUMNS} FROM photos WHERE ${inRoots(roots)} AND ${isPrimary()} ORDER BY RANDOM() LIMIT ?`,
+      ...roots, limit,
+    );
+  }
+
+  getPhotoYears(roots: string[]): number[] {
+    const rows = this.db.query(`
+      SELECT DISTINCT taken_year AS year FROM photos
+      WHERE ${inRoots(roots)} AND taken_year IS NOT NULL
+      ORDER BY taken_year
+    `).all(...roots) as Array<{ year: number }>;
+    return rows.map(r => r.year);
+  }
+
+  private queryPhotos(sql: string, ...params: Array<string | number | null>): Photo[] {
+    const rows = this.db.query(sql).all(...params) as PhotoRow[];
+    return rows.map(row => this.toPhoto(row));
+  }
+
+  // 照片 JSON 中保存元数据里的原始名字，读取时换成显示名字
+  private toPhoto(row: PhotoRow): Photo {
+    const photo = rowToPhoto(row);
+    if (this.aliases.size === 0) return photo;
+
+    if (photo.people) {
+      photo.people = [...new Set(photo.people.map(name => this.personName(name)))];
+    }
+    if (photo.faces) {
+      photo.faces = photo.faces.map(face => face.name ? { ...face, name: this.personName(face.name) } : face);
+    }
+    return photo;
+  }
+
+  // 人物
+  // 人物设置
+  private loadAliases(): void {
+    const rows = this.db.query("SELECT alias, person FROM person_aliases").all() as Array<{ alias: string; person: string }>;
+    this.aliases = new Map(rows.map(row => [row.alias, row.person]));
+  }
+
+  private personName(sourceName: string): string {
+    return this.aliases.get(sourceName) ?? sourceName;
+  }
+
+  // 设置变化后按原始名字重新计算所有人脸的显示名字
+  private applyPeopleSettings(): void {
+    this.loadAliases();
+    this.db.run(`
+      UPDATE faces SET name = COALESCE(
+        (SELECT person FROM person_aliases WHERE alias = faces.source_name),
+        source_name
+      )
+      WHERE source_name IS NOT NULL
+    `);
+  }
+
+  // 把多个名字合并为一个人物（也用于改名）；原来指向这些名字的别名一并转移
+  mergePeople(names: string[], into: string): void {
+    this.transaction(() => {
+      const created = this.db.query("INSERT OR IGNORE INTO people (name) VALUES (?)").run(into).changes > 0;
+      // 目标名字本身是显示名字，不能再作为别名指向其他人
+      this.db.query("DELETE FROM person_aliases WHERE alias = ?").run(into);
+
+      for (const name of names) {
+        if (name === into) continue;
+
+        // 新建的目标人物（改名）沿用原来的设置；已有的目标人物只补充缺少的生日
+        this.db.query(`
+          UPDATE people SET
+            hidden = CASE WHEN ?3 THEN COALESCE((SELECT hidden FROM people WHERE name = ?1), hidden) ELSE hidden END,
+            birthday = COALESCE(birthday, (SELECT birthday FROM people WHERE name = ?1))
+          WHERE name = ?2
+        `).run(name, into, created ? 1 : 0);
+        this.db.query("DELETE FROM people WHERE name = ?").run(name);
+        this.db.query("UPDATE person_aliases SET person = ? WHERE person = ?").run(into, name);
+        this.db.query("INSERT OR REPLACE INTO person_aliases (alias, person) VALUES (?, ?)").run(name, into);
+      }
+
+      this.applyPeopleSettings();
+    });
+  }
+
+  updatePerson(name: string, update: PersonUpdate): void {
+    this.transaction(() => {
+      let current = name;
+      if (update.name && update.name !== name) {
+        this.mergePeople([name], update.name);
+        current = update.name;
+      }
+
+      this.db.query("INSERT OR IGNORE INTO people (name) VALUES (?)").run(current);
+      if (update.hidden !== undefined) {
+        this.db.query("UPDATE people SET hidden = ? WHERE name = ?").run(update.hidden ? 1 : 0, current);
+      }
+      if (update.birthday !== undefined) {
+        this.db.query("UPDATE people SET birthday = ? WHERE name = ?").run(update.birthday, current);
+      }
+      if (update.aliases) {
+        this.db.query("DELETE FROM person_aliases WHERE person = ?").run(current);
+        for (const alias of new Set(update.aliases)) {
+          if (alias === current) continue;
+          this.db.query("INSERT OR REPLACE INTO person_aliases (alias, person) VALUES (?, ?)").run(alias, current);
+        }
+      }
+
+      this.applyPeopleSettings();
+    });
+  }
+
+  // 隐藏的人物（显示名字）
+  getHiddenPeople(): Set<string> {
+    const rows = this.db.query("SELECT name FROM people WHERE hidden = 1").all() as Array<{ name: string }>;
+    return new Set(rows.map(row => row.name));
+  }
+
+  // 删除人物设置，恢复元数据中的原始名字
+  resetPerson(name: string): void {
+    this.transaction(() => {
+      this.db.query("DELETE FROM people WHERE name = ?").run(name);
+      this.db.query("DELETE FROM person_aliases WHERE person = ?").run(name);
+      this.applyPeopleSettings();
+    });
+  }
+
+  // 封面优先选择有人脸框的照片，用于裁剪头像；隐藏的人物默认不返回
+  getAllPeople(roots: string[], includeHidden = false): Person[] {
+    const rows = this.db.query(`
+      WITH covers AS (
+        SELECT f.name, f.photo_id, f.face_id,
+          ROW_NUMBER() OVER (PARTITION BY f.name ORDER BY f.x IS NULL, f.rowid) AS rank
+        FROM faces f
+        JOIN photos p ON p.id = f.photo_id
+        WHERE f.name IS NOT NULL AND ${inRoots(roots, "p.root")} AND ${isPrimary("p")}
+      )
+      SELECT f.name, COUNT(DISTINCT f.photo_id) AS photo_count, c.photo_id AS cover_photo, c.face_id AS cover_face,
+        COALESCE(s.hidden, 0) AS hidden, s.birthday,
+        (SELECT json_group_array(alias) FROM person_aliases WHERE person = f.name) AS aliases
+      FROM faces f
+      JOIN photos p ON p.id = f.photo_id
+      JOIN covers c ON c.name = f.name AND c.rank = 1
+      LEFT JOIN people s ON s.name = f.name
+      WHERE f.name IS NOT NULL AND ${inRoots(roots, "p.root")} AND ${isPrimary("p")}
+        ${includeHidden ? "" : "AND COALESCE(s.hidden, 0) = 0"}
+      GROUP BY f.name
+      ORDER BY photo_count DESC
+    `).all(...roots, ...roots) as Array<{
+      name: string;
+      photo_count: number;
+      cover_photo: string;
+      cover_face: string | null;
+      hidden: number;
+      birthday: string | null;
+      aliases: string;
+    }>;
+
+    return rows.map(row => {
+      const aliases = JSON.parse(row.aliases) as string[];
+      return {
+        id: Buffer.from(row.name).toString("base64url"),
+        name: row.name,
+        photoCount: row.photo_count,
+        coverPhoto: row.cover_photo,
+        coverFaceId: row.cover_face ?? undefined,
+        hidden: row.hidden ? true : undefined,
+        birthday: row.birthday ?? undefined,
+        aliases: aliases.length > 0 ? aliases : undefined,
+      };
+    });
+  }
+
+  // 还没有命名的人脸（最新拍摄的在前）
+  getUnnamedFaces(roots: string[], limit: number, offset: number): { total: number; faces: UnnamedFace[] } {
+    const condition = `f.name IS NULL AND f.x IS NOT NULL AND ${inRoots(roots, "p.root")} AND ${isPrimary("p")}`;
+    const { total } = this.db.query(`
+      SELECT COUNT(*) AS total FROM faces f JOIN photos p ON p.id = f.photo_id WHERE ${condition}
+    `).get(...roots) as { total: number };
+
+    const rows = this.db.query(`
+      SELECT f.photo_id, f.face_id, f.x, f.y, f.w, f.h
+      FROM faces f
+      JOIN photos p ON p.id = f.photo_id
+      WHERE ${condition}
+      ORDER BY p.taken_at DESC, f.rowid
+      LIMIT ? OFFSET ?
+    `).all(...roots, limit, offset) as Array<{
+      photo_id: string;
+      face_id: string | null;
+      x: number;
+      y: number;
+      w: number;
+      h: number;
+    }>;
+
+    return {
+      total,
+      faces: rows.map(row => ({
+        photoId: row.photo_id,
+        face: { id: row.face_id ?? "", x: row.x, y: row.y, w: row.w, h: row.h },
+      })),
+    };
+  }
+
+  // 地点：有国家信息的照片，按拍摄时间倒序（第一张作为封面）
+  getLocationPhotoRows(roots: string[]): LocationPhoto[] {
+    const rows = this.db.query(`
+      SELECT id, latitude, longitude, country, province, city, place_id FROM photos
+      WHERE ${inRoots(roots)} AND ${isPrimary()} AND country IS NOT NULL
+      ORDER BY taken_at DESC, rowid
+    `).all(...roots) as Array<{
+      id: string;
+      latitude: number | null;
+      longitude: number | null;
+      country: string;
+      province: string | null;
+      city: string | null;
+      place_id: number | null;
+    }>;
+
+    return rows.map(row => ({
+      id: row.id,
+      latitude: row.latitude ?? undefined,
+      longitude: row.longitude ?? undefined,
+      country: row.country,
+      province: row.province ?? undefined,
+      city: row.city ?? undefined,
+      placeId: row.place_id ?? undefined,
+    }));
+  }
+
+  // 城市数量（作为地点统计）
+  getCityCount(roots: string[]): number {
+    const row = this.db.query(`
+      SELECT COUNT(*) AS count FROM (
+        SELECT DISTINCT country, city FROM photos
+        WHERE ${inRoots(roots)} AND ${isPrimary()} AND country IS NOT NULL AND city IS NOT NULL
+      )
+    `).get(...roots) as { count: number };
+    return row.count;
+  }
+
+  // 参与聚类的照片：所有库中有坐标和城市的主照片，cities 为 cityKey，只返回这些城市的
+  getGeoPoints(cities?: string[]): PlacePoint[] {
+    const rows = this.db.query(`
+      SELECT id, latitude, longitude, country, province, city, place_id, json_extract(data, '$.address') AS address
+      FROM photos
+      WHERE ${isPrimary()} AND latitude IS NOT NULL AND longitude IS NOT NULL
+        AND country IS NOT NULL AND city IS NOT NULL
+        ${cities ? `AND ${CITY_KEY} IN (${placeholders(cities.length)})` : ""}
+    `).all(...cities ?? []) as Array<{
+      id: string;
+      latitude: number;
+      longitude: number;
+      country: string;
+      province: string | null;
+      city: string;
+      place_id: number | null;
+      address: string | null;
+    }>;
+
+    return rows.map(row => ({
+      id: row.id,
+      latitude: row.latitude,
+      longitude: row.longitude,
+      country: row.country,
+      province: row.province ?? undefined,
+      city: row.city,
+      address: row.address ?? undefined,
+      placeId: row.place_id ?? undefined,
+    }));
+  }
+
+  getPlaces(): Map<number, PlaceRecord> {
+    const rows = this.db.query("SELECT * FROM places").all() as Array<{
+      id: number;
+      name: string;
+      country: string | null;
+      province: string | null;
+      city: string | null;
+      latitude: number;
+      longitude: number;
+      north: number;
+      south: number;
+      east: number;
+      west: number;
+    }>;
+
+    return new Map(rows.map(row => [row.id, {
+      id: row.id,
+      name: row.name,
+      country: row.country ?? undefined,
+      province: row.province ?? undefined,
+      city: row.city ?? undefined,
+      latitude: row.latitude,
+      longitude: row.longitude,
+      bounds: { north: row.north, south: row.south, east: row.east, west: row.west },
+    }]));
+  }
+
+  // 替换 cities 中的地点（缺省为所有地点），members 为每个地点的照片 ID。
+  // 带 id 的地点更新已有的记录，其余的新建；这些城市中没有出现的地点被删除
+  savePlaces(places: Array<Omit<PlaceRecord, "id"> & { id?: number; members: string[] }>, cities?: string[]): void {
+    const scope = cities ? `WHERE ${CITY_KEY} IN (${placeholders(cities.length)})` : "";
+    const params = cities ?? [];
+
+    this.transaction(() => {
+      this.db.query(`UPDATE photos SET place_id = NULL WHERE place_id IN (SELECT id FROM places ${scope})`).run(...params);
+      const kept = new Set(places.map(place => place.id).filter(id => id !== undefined));
+      const previous = this.db.query(`SELECT id FROM places ${scope}`).all(...params) as Array<{ id: number }>;
+      for (const { id } of previous) {
+        if (!kept.has(id)) this.db.query("DELETE FROM places WHERE id = ?").run(id);
+      }
+
+      const insert = this.db.query(`
+        INSERT INTO places (name, country, province, city, latitude, longitude, north, south, east, west)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      const update = this.db.query(`
+        UPDATE places SET name = ?, country = ?, province = ?, city = ?,
+          latitude = ?, longitude = ?, north = ?, south = ?, east = ?, west = ?
+        WHERE id = ?
+      `);
+      const assign = this.db.query("UPDATE photos SET place_id = ? WHERE id = ?");
+      for (const place of places) {
+        const values = [
+          place.name,
+          place.country ?? null,
+          place.province ?? null,
+          place.city ?? null,
+          place.latitude,
+          place.longitude,
+          place.bounds.north,
+          place.bounds.south,
+          place.bounds.east,
+          place.bounds.west,
+        ] as const;
+        let id = place.id;
+        if (id === undefined) {
+          id = Number(insert.run(...values).lastInsertRowid);
+        } else {
+          update.run(...values, id);
+        }
+        for (const member of place.members) {
+          assign.run(id, member);
+        }
+      }
+    });
+  }
+
+  // 反向地理编码缓存：undefined 表示还没有查询过，null 表示附近没有城市
+  getCachedPlace(key: string): Place | null | undefined {
+    const row = this.db.query("SELECT place FROM geocode_cache WHERE key = ?").get(key) as { place: string | null } | null;
+    if (!row) return undefined;
+    return row.place ? JSON.parse(row.place) : null;
+  }
+
+  cachePlace(key: string, place: Place | null): void {
+    this.db.query("INSERT OR REPLACE INTO geocode_cache (key, place) VALUES (?, ?)")
+      .run(key, place ? JSON.stringify(place) : null);
+  }
+
+  // 扫描错误（path 为绝对路径）：同一路径同一阶段只保留最近一次
+  saveScanError(error: ScanError): void {
+    this.db.query(`
+      INSERT OR REPLACE INTO scan_errors (path, stage, root, message, time) VALUES (?, ?, ?, ?, ?)
+    `).run(error.path, error.stage, error.root, error.message, error.time.getTime());
+  }
+
+  // 删除路径的所有错误（重新解析之前）；stage 只删除指定阶段的
+  deleteScanErrors(paths: string[], stage?: string): void {
+    const remove = stage
+      ? this.db.query("DELETE FROM scan_errors WHERE path = ? AND stage = ?")
+      : this.db.query("DELETE FROM scan_errors WHERE path = ?");
+    this.transaction(() => {
+      for (const path of paths) {
+        if (stage) remove.run(path, stage);
+        else remove.run(path);
+      }
+    });
+  }
+
+  // 按条件分页查询，同时返回总数和各阶段的数量
+  getScanErrors(filter: ScanErrorFilter, limit: number, offset: number): {
+    total: number;
+    stages: Record<string, number>;
+    errors: ScanError[];
+  } {
+    const { where, params } = scanErrorConditions(filter);
+    const stageRows = this.db.query(`
+      SELECT stage, COUNT(*) AS count FROM scan_errors WHERE ${where} GROUP BY stage ORDER BY count DESC
+    `).all(...params) as Array<{ stage: string; count: number }>;
+
+    const rows = this.db.query(`
+      SELECT * FROM scan_errors WHERE ${where} ORDER BY time DESC, path LIMIT ? OFFSET ?
+    `).all(...params, limit, offset) as ScanErrorRow[];
+
+    return {
+      total: stageRows.reduce((sum, row) => sum + row.count, 0),
+      stages: Object.fromEntries(stageRows.map(row => [row.stage, row.count])),
+      errors: rows.map(row => ({ ...row, time: new Date(row.time) })),
+    };
+  }
+
+  deleteMatchingScanErrors(filter: ScanErrorFilter): void {
+    const { where, params } = scanErrorConditions(filter);
+    this.db.query(`DELETE FROM scan_errors WHERE ${where}`).run(...params);
+  }
+
+  getScanErrorPaths(filter: ScanErrorFilter): string[] {
+    const { where, params } = scanErrorConditions(filter);
+    const rows = this.db.query(`SELECT DISTINCT path FROM scan_errors WHERE ${where}`).all(...params) as Array<{ path: string }>;
+    return rows.map(row => row.path);
+  }
+
+  // 清除文件的 mtime，下次处理时重新解析
+  markStale(paths: string[]): void {
+    const update = this.db.query("UPDATE photos SET mtime = NULL WHERE path = ?");
+    this.transaction(() => {
+      for (const path of paths) update.run(path);
+    });
+  }
+
+  // 相册
+  getAllAlbums(roots: string[]): Album[] {
+    const rows = this.db.query(`${ALBUM_QUERY} WHERE ${inRoots(roots, "a.root")} ORDER BY a.rowid`)
+      .all(...roots) as AlbumRow[];
+    return rows.map(rowToAlbum);
+  }
+
+  getAlbum(id: string): Album | undefined {
+    const row = this.db.query(`${ALBUM_QUERY} WHERE a.id = ?`).get(id) as AlbumRow | null;
+    return row ? rowToAlbum(row) : undefined;
+  }
+
+  getChildAlbums(rootName: string, albumName: string): Album[] {
+    const rows = this.db.query(`${ALBUM_QUERY} WHERE a.root = ? AND a.parent = ?`)
+      .all(rootName, albumName) as AlbumRow[];
+    return rows.map(rowToAlbum);
+  }
+
+  // 根据相册（包括子相册）内的照片统计数量和日期范围
+  getAlbumSummary(rootName: string, albumName: string): AlbumSummary {
+    const row = this.db.query(`
+      SELECT COUNT(*) AS count, MIN(taken_at) AS start, MAX(taken_at) AS end
+      FROM photos WHERE root = ?1 AND ${inAlbumTree()} AND ${isPrimary()}
+    `).get(rootName, albumName) as { count: number; start: number | null; end: number | null };
+
+    return {
+      photoCount: row.count,
+      start: row.start ?? undefined,
+      end: row.end ?? undefined,
+    };
+  }
+
+  // 自动选择封面的候选照片（相册及其子相册的主照片，按目录排列）
+  getCoverCandidates(rootName: string, albumName: string): CoverCandidate[] {
+    const rows = this.db.query(`
+      SELECT id, media_type,
+        json_extract(data, '$.filename') AS filename,
+        json_extract(data, '$.rating') AS rating,
+        COALESCE(json_extract(data, '$.displayWidth'), json_extract(data, '$.width')) AS width,
+        COALESCE(json_extract(data, '$.displayHeight'), json_extract(data, '$.height')) AS height,
+        (SELECT COUNT(*) FROM faces f WHERE f.photo_id = photos.id AND f.x IS NOT NULL) AS faces,
+        (SELECT COUNT(DISTINCT f.name) FROM faces f WHERE f.photo_id = photos.id) AS people
+      FROM photos WHERE root = ?1 AND ${inAlbumTree()} AND ${isPrimary()}
+      ORDER BY album, rowid
+    `).all(rootName, albumName) as Array<{
+      id: string;
+      media_type: string;
+      filename: string;
+      rating: number | null;
+      width: number | null;
+      height: number | null;
+      faces: number;
+      people: number;
+    }>;
+
+    return rows.map(row => ({
+      id: row.id,
+      mediaType: row.media_type,
+      filename: row.filename,
+      rating: row.rating ?? undefined,
+      width: row.width ?? undefined,
+      height: row.height ?? undefined,
+      faces: row.faces,
+      people: row.people,
+    }));
+  }
+
+  // 相册设置，按照片库和相册名保存
+  updateAlbumSettings(rootName: string, albumName: string, update: AlbumUpdate): void {
+    this.transaction(() => {
+      this.db.query("INSERT OR IGNORE INTO album_settings (root, name) VALUES (?, ?)").run(rootName, albumName);
+      const columns = { title: update.title, description: update.description, cover_photo: update.coverPhoto };
+      for (const [column, value] of Object.entries(columns)) {
+        if (value === undefined) continue;
+        this.db.query(`UPDATE album_settings SET ${column} = ? WHERE root = ? AND name = ?`).run(value, rootName, albumName);
+      }
+    });
+  }
+
+  resetAlbumSettings(rootName: string, albumName: string): void {
+    this.db.query("DELETE FROM album_settings WHERE root = ? AND name = ?").run(rootName, albumName);
+  }
+
+  saveAlbum(album: Omit<Album, "parentId" | "childCount" | "title" | "description" | "customCover">): void {
+    this.db.query(`
+      INSERT OR REPLACE INTO albums (root, name, parent, id, path, cover_photo, photo_count, start_date, end_date)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      album.root ?? "",
+      album.name,
+      parentAlbumName(album.name) ?? null,
+      album.id,
+      album.path,
+      album.coverPhoto ?? null,
+      album.photoCount,
+      album.dateRange?.start.getTime() ?? null,
+      album.dateRange?.end.getTime() ?? null,
+    );
+  }
+
+  deleteAlbum(rootName: string, albumName: string): void {
+    this.db.query("DELETE FROM albums WHERE root = ? AND name = ?").run(rootName, albumName);
+  }
+}
+
+function rowToPhoto(row: PhotoRow): Photo {
+  const data = JSON.parse(row.data) as Omit<Photo, "id" | "path" | "takenAt"> & { takenAt?: string };
+  return {
+    ...data,
+    id: row.id,
+    path: row.path,
+    takenAt: data.takenAt ? new Date(data.takenAt) : undefined,
+    stack: row.stack ? JSON.parse(row.stack) : undefined,
+  };
+}
+
+function rowToAlbum(row: AlbumRow): Album {
+  return {
+    id: row.id,
+    name: row.name,
+    root: row.root,
+    parentId: row.parent !== null ? albumId(row.root, row.parent) : undefined,
+    childCount: row.child_count,
+    path: row.path,
+    title: row.title ?? undefined,
+    description: row.description ?? undefined,
+    coverPhoto: row.custom_cover ?? row.cover_photo ?? undefined,
+    customCover: row.custom_cover !== null,
+    photoCount: row.photo_count,
+    dateRange: row.start_date !== null && row.end_date !== null ? {
+      start: new Date(row.start_date),
+      end: new Date(row.end_date),
+    } : undefined,
+  };
+}
+
+// 相册 ?2 及其子相册中的照片（?1 为照片库）。'/' 的下一个字符是 '0'，范围条件可以使用索引
+function inAlbumTree(): string {
+  return "(album = ?2 OR (album >= ?2 || '/' AND album < ?2 || '0'))";
+}
+
+function placeholders(count: number): string {
+  return Array(count).fill("?").join(", ");
+}
+
+// 限定照片库范围的条件（空列表不匹配任何照片）
+function inRoots(roots: string[], column = "root"): string {
+  return `${column} IN (${placeholders(roots.length)})`;
+}
+
+function scanErrorConditions(filter: ScanErrorFilter): { where: string; params: string[] } {
+  const conditions = [inRoots(filter.roots)];
+  const params = [...filter.roots];
+  if (filter.stage) {
+    conditions.push("stage = ?");
+    params.push(filter.stage);
+  }
+  if (filter.path) {
+    conditions.push("instr(path, ?) > 0");
+    params.push(filter.path);
+  }
+  return { where: conditions.join(" AND "), params };
+}
+
+// 地点查询条件。place 单独使用；country/region/city 组合使用，只有国家和城市时包括没有省份的照片
+function locationConditions(filter: LocationFilter): { where: string; params: Array<string | number> } {
+  if (filter.place !== undefined) {
+    return { where: "place_id = ?", params: [filter.place] };
+  }
+
+  const conditions: string[] = [];
+  const params: Array<string | number> = [];
+  if (filter.country !== undefined) {
+    conditions.push("country = ?");
+    params.push(filter.country);
+  }
+  if (filter.region !== undefined) {
+    conditions.push("province = ?");
+    params.push(filter.region);
+  } else if (filter.city !== undefined) {
+    conditions.push("province IS NULL");
+  }
+  if (filter.city !== undefined) {
+    conditions.push("city = ?");
+    params.push(filter.city);
+  }
+  return { where: conditions.length > 0 ? conditions.join(" AND ") : "country IS NOT NULL", params };
+}
+
+// 不属于堆叠，或者是堆叠的主照片
+function isPrimary(table?: string): string {
+  const prefix = table ? `${table}.` : "";
+  return `(${prefix}stack_id IS NULL OR ${prefix}stack_id = ${prefix}id)`;
+}
@@ -0,0 +1,319 @@
+// 拍摄时间：EXIF 记录的是拍摄地的当地时间（墙上时间），需要知道时区才能换算成绝对时刻。
+// 时区依次取自 EXIF 偏移、GPS 时间（UTC）和坐标所在的时区；都没有时按服务器时区处理。
+// 没有 EXIF 时间时从文件名和相册目录名推断
+import tzLookup from "@photostructure/tz-lookup";
+import type { ExifTags } from "./exif";
+import type { Photo, DateSource, DateConfidence } from "./types";
+
+// 当地日期，用于"多少年前的今天"等按日期的查询
+export interface LocalDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+interface WallClock extends LocalDate {
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+interface InferredDate {
+  wallClock: WallClock;
+  source: DateSource;
+  confidence: DateConfidence;
+}
+
+// 合理的时区偏移范围（分钟）
+const MAX_OFFSET = 14 * 60;
+
+const MINUTE = 60 * 1000;
+
+// 文件名中的日期和时间：IMG_20230101_120000、PXL_20230101_120000123、
+// Screenshot_2023-01-01-12-00-00、"Screenshot 2023-01-01 at 12.00.00"
+const FILENAME_DATE_TIME = /(?<!\d)((?:19|20)\d{2})([-_.]?)(\d{2})\2(\d{2})(?:[-_ T]|\sat\s)(\d{2})[-_.:]?(\d{2})[-_.:]?(\d{2})(?:\d{3})?(?!\d)/;
+
+// 只有日期：WhatsApp 的 IMG-20230101-WA0001（收到的日期）、2023-01-01 春节
+const DATE_ONLY = /(?<!\d)((?:19|20)\d{2})([-_.]?)(\d{2})\2(\d{2})(?!\d)/;
+
+// 年份目录：2023、2023年、2023-05、2023年5月
+const YEAR_FOLDER = /^((?:19|20)\d{2})年?(?:[-_. ]?(\d{1,2})月?)?(?!\d)/;
+const MONTH_FOLDER = /^(\d{1,2})月?(?!\d)/;
+
+// 从 EXIF 读取拍摄时间，写入 takenAt / takenAtLocal / takenAtOffset
+export function applyExifCaptureTime(tags: ExifTags, photo: Photo): void {
+  const wallClock = parseExifDateTime(tags.exif?.DateTimeOriginal?.description, tags.exif?.SubSecTimeOriginal?.description);
+  if (!wallClock) return;
+
+  const local = wallClockMillis(wallClock);
+  const offset = parseOffset(tags.exif?.OffsetTimeOriginal?.description ?? tags.exif?.OffsetTime?.description)
+    ?? gpsOffset(tags, local);
+
+  setWallClock(photo, wallClock, offset);
+  photo.dateSource = "exif";
+  photo.dateConfidence = "high";
+}
+
+// 没有 EXIF 时间时依次从文件名和相册目录名推断
+export function inferCaptureTime(photo: Photo): boolean {
+  const inferred = dateFromFilename(photo.filename) ?? (photo.album ? dateFromFolder(photo.album) : undefined);
+  if (!inferred) return false;
+
+  setWallClock(photo, inferred.wallClock, undefined);
+  photo.dateSource = inferred.source;
+  photo.dateConfidence = inferred.confidence;
+  return true;
+}
+
+// 是否有具体时间：目录名和只有日期的文件名只精确到天（保存为当天 0 点）
+export function hasTimeOfDay(photo: Photo): boolean {
+  if (photo.dateSource === "folder") return false;
+  return photo.dateSource !== "filename" || photo.dateConfidence === "high";
+}
+
+// 以绝对时刻作为拍摄时间（视频容器、Synology 元数据、文件修改时间），当地时间由 resolveTimezone 计算
+export function setCaptureInstant(photo: Photo, date: Date, source: DateSource, confidence: DateConfidence): boolean {
+  if (isNaN(date.getTime())) return false;
+
+  photo.takenAt = date;
+  photo.takenAtLocal = undefined;
+  photo.takenAtOffset = undefined;
+  photo.dateSource = source;
+  photo.dateConfidence = confidence;
+  return true;
+}
+
+// 所有元数据读取完后补全时区：
+// - 只有当地时间（EXIF 没有偏移）时，根据坐标查询时区并换算出绝对时刻
+// - 只有绝对时刻（视频容器、Synology 元数据、文件修改时间）时，换算出拍摄地的当地时间
+export function resolveTimezone(photo: Photo): void {
+  if (!photo.takenAt || isNaN(photo.takenAt.getTime()) || photo.takenAtOffset !== undefined) return;
+
+  const zone = timezoneAt(photo.latitude, photo.longitude);
+
+  if (photo.takenAtLocal) {
+    if (!zone) return;
+    const wallClock = parseLocalString(photo.takenAtLocal);
+    if (!wallClock) return;
+    const local = wallClockMillis(wallClock);
+    // 先用当地时间近似求偏移，再按求得的时刻重新计算一次（夏令时切换附近两者不同）
+    const offset = zoneOffset(zone, new Date(local - zoneOffset(zone, new Date(local)) * MINUTE));
+    photo.takenAtOffset = offset;
+    photo.takenAt = new Date(local - offset * MINUTE);
+    return;
+  }
+
+  if (zone) {
+    const offset = zoneOffset(zone, photo.takenAt);
+    photo.takenAtOffset = offset;
+    photo.takenAtLocal = formatWallClock(utcWallClock(new Date(photo.takenAt.getTime() + offset * MINUTE)));
+  } else {
+    // 拍摄地未知，当地时间只能按服务器时区计算（不记录偏移）
+    photo.takenAtLocal = formatWallClock(serverWallClock(photo.takenAt));
+  }
+}
+
+// 照片在拍摄地的日期；旧索引没有当地时间时按服务器时区计算
+export function localDate(photo: Pick<Photo, "takenAt" | "takenAtLocal">): LocalDate | undefined {
+  const wallClock = photo.takenAtLocal ? parseLocalString(photo.takenAtLocal) : undefined;
+  if (wallClock) {
+    return { year: wallClock.year, month: wallClock.month, day: wallClock.day };
+  }
+  if (photo.takenAt && !isNaN(photo.takenAt.getTime())) {
+    return { year: photo.takenAt.getFullYear(), month: photo.takenAt.getMonth() + 1, day: photo.takenAt.getDate() };
+  }
+  return undefined;
+}
+
+function setWallClock(photo: Photo, wallClock: WallClock, offset: number | undefined): void {
+  photo.takenAtLocal = formatWallClock(wallClock);
+  photo.takenAtOffset = offset;
+  // 时区暂时未知时先按服务器时区换算，resolveTimezone 中可能再根据坐标修正
+  photo.takenAt = offset !== undefined
+    ? new Date(wallClockMillis(wallClock) - offset * MINUTE)
+    : serverLocalDate(wallClock);
+}
+
+// 带时间的文件名一般由相机或手机生成，比较可靠；只有日期的可能是收到或导出的日期
+function dateFromFilename(filename: string): InferredDate | undefined {
+  const withTime = filename.match(FILENAME_DATE_TIME);
+  if (withTime) {
+    const [year, , month, day, hour, minute, second] = withTime.slice(1).map(Number) as number[];
+    const wallClock = validWallClock(year!, month!, day!, hour!, minute!, second!);
+    if (wallClock) return { wallClock, source: "filename", confidence: "high" };
+  }
+
+  const dateOnly = filename.match(DATE_ONLY);
+  if (dateOnly) {
+    const wallClock = validWallClock(Number(dateOnly[1]), Number(dateOnly[3]), Number(dateOnly[4]));
+    if (wallClock) return { wallClock, source: "filename", confidence: "medium" };
+  }
+
+  return undefined;
+}
+
+// 相册目录名：最深一层中的完整日期优先，其次是年份（和月份）目录
+function dateFromFolder(album: string): InferredDate | undefined {
+  const segments = album.split("/");
+
+  for (let i = segments.length - 1; i >= 0; i--) {
+    const match = segments[i]!.match(DATE_ONLY);
+    const wallClock = match && validWallClock(Number(match[1]), Number(match[3]), Number(match[4]));
+    if (wallClock) return { wallClock, source: "folder", confidence: "medium" };
+  }
+
+  for (let i = segments.length - 1; i >= 0; i--) {
+    const match = segments[i]!.match(YEAR_FOLDER);
+    if (!match) continue;
+
+    // 月份可能在同一个目录名中，也可能是下一层目录 (2023/05)
+    const month = match[2] ?? segments[i + 1]?.match(MONTH_FOLDER)?.[1];
+    const wallClock = validWallClock(Number(match[1]), month ? Number(month) : 1, 1)
+      ?? validWallClock(Number(match[1]), 1, 1);
+    if (wallClock) return { wallClock, source: "folder", confidence: "low" };
+  }
+
+  return undefined;
+}
+
+// 检查日期是否存在，并且不晚于明年（排除文件名中碰巧像日期的编号）
+function validWallClock(year: number, month: number, day: number, hour = 0, minute = 0, second = 0): WallClock | undefined {
+  if (year > new Date().getFullYear() + 1 || hour > 23 || minute > 59 || second > 59) return undefined;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return undefined;
+  }
+  return { year, month, day, hour, minute, second, millisecond: 0 };
+}
+
+// EXIF 日期格式: "2024:01:15 14:30:00"，毫秒来自 SubSecTime ("123" 表示 0.123 秒)
+function parseExifDateTime(dateStr?: string, subSec?: string): WallClock | undefined {
+  const match = dateStr?.trim().match(/^(\d{4})[:-](\d{2})[:-](\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return undefined;
+
+  const [year, month, day, hour, minute, second] = match.slice(1).map(Number) as [number, number, number, number, number, number];
+  // 未设置时钟的相机会写入 "0000:00:00 00:00:00"
+  if (year === 0 || month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59 || second > 60) {
+    return undefined;
+  }
+
+  const digits = subSec?.trim().match(/^\d+/)?.[0];
+  const millisecond = digits ? Math.min(999, Math.round(Number(`0.${digits}`) * 1000)) : 0;
+
+  return { year, month, day, hour, minute, second, millisecond };
+}
+
+// "+09:00" / "-05:30" / "Z" -> 分钟
+function parseOffset(value?: string): number | undefined {
+  const text = value?.trim();
+  if (!text) return undefined;
+  if (text === "Z") return 0;
+
+  const match = text.match(/^([+-])(\d{2}):?(\d{2})$/);
+  if (!match) return undefined;
+
+  const offset = (match[1] === "-" ? -1 : 1) * (Number(match[2]) * 60 + Number(match[3]));
+  return Math.abs(offset) <= MAX_OFFSET ? offset : undefined;
+}
+
+// GPS 时间是 UTC，与当地时间的差即为时区偏移。GPS 定位时刻可能比拍摄早几分钟，
+// 按 15 分钟取整（所有时区偏移都是 15 分钟的倍数）
+function gpsOffset(tags: ExifTags, local: number): number | undefined {
+  const date = tags.exif?.GPSDateStamp?.description?.trim().match(/^(\d{4})[:-](\d{2})[:-](\d{2})$/);
+  const time = tags.exif?.GPSTimeStamp?.description?.trim().match(/^(\d{1,2}):(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/);
+  if (!date || !time) return undefined;
+
+  const utc = Date.UTC(Number(date[1]), Number(date[2]) - 1, Number(date[3]), Number(time[1]), Number(time[2]))
+    + Number(time[3]) * 1000;
+  if (isNaN(utc)) return undefined;
+
+  const offset = Math.round((local - utc) / (15 * MINUTE)) * 15;
+  return Math.abs(offset) <= MAX_OFFSET ? offset : undefined;
+}
+
+function timezoneAt(latitude?: number, longitude?: number): string | undefined {
+  if (latitude === undefined || longitude === undefined) return undefined;
+  // 有些设备在没有定位时写入 0,0
+  if (latitude === 0 && longitude === 0) return undefined;
+  try {
+    return tzLookup(latitude, longitude);
+  } catch {
+    return undefined;
+  }
+}
+
+const zoneFormats: Map<string, Intl.DateTimeFormat> = new Map();
+
+// 时区在某一时刻相对 UTC 的偏移（分钟），考虑夏令时
+function zoneOffset(zone: string, date: Date): number {
+  let format = zoneFormats.get(zone);
+  if (!format) {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone: zone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    zoneFormats.set(zone, format);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of format.formatToParts(date)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  const local = Date.UTC(parts.year!, parts.month! - 1, parts.day!, parts.hour!, parts.minute!, parts.second!);
+  return Math.round((local - Math.floor(date.getTime() / 1000) * 1000) / MINUTE);
+}
+
+// 把当地时间当作 UTC 得到的毫秒数，便于计算偏移
+function wallClockMillis(c: WallClock): number {
+  return Date.UTC(c.year, c.month - 1, c.day, c.hour, c.minute, c.second, c.millisecond);
+}
+
+function serverLocalDate(c: WallClock): Date {
+  return new Date(c.year, c.month - 1, c.day, c.hour, c.minute, c.second, c.millisecond);
+}
+
+function utcWallClock(date: Date): WallClock {
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+    millisecond: date.getUTCMilliseconds(),
+  };
+}
+
+function serverWallClock(date: Date): WallClock {
+  return {
+    year: date.getFullYear(),
+    month: date.getMonth() + 1,
+    day: date.getDate(),
+    hour: date.getHours(),
+    minute: date.getMinutes(),
+    second: date.getSeconds(),
+    millisecond: date.getMilliseconds(),
+  };
+}
+
+// "YYYY-MM-DDTHH:mm:ss"，有毫秒时加 ".sss"（不带时区，浏览器按当地时间解析）
+function formatWallClock(c: WallClock): string {
+  const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+  const text = `${pad(c.year, 4)}-${pad(c.month)}-${pad(c.day)}T${pad(c.hour)}:${pad(c.minute)}:${pad(c.second)}`;
+  return c.millisecond ? `${text}.${pad(c.millisecond, 3)}` : text;
+}
+
+function parseLocalString(text: string): WallClock | undefined {
+  const match = text.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})(?:\.(\d{3}))?$/);
+  if (!match) return undefined;
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map(Number) as [number, number, number, number, number, number];
+  return { year, month, day, hour, minute, second, millisecond: match[7] ? Number(match[7]) : 0 };
+}
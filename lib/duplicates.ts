@@ -0,0 +1,114 @@
+// 重复照片分组：完整内容相同为完全重复，感知哈希接近为近似重复。
+// 内容指纹只采样了首尾，相同时还要有相同的完整内容哈希才算完全重复
+import { hammingDistance } from "./phash";
+import type { Photo, DuplicateGroup } from "./types";
+
+// 默认的近似重复阈值：64 位感知哈希中最多不同的位数
+const NEAR_DUPLICATE_DISTANCE = 6;
+
+// 阈值上限，越大分段越多，比较次数也越多
+const MAX_DUPLICATE_DISTANCE = 16;
+
+// 纯色、全黑的图片哈希全为 0，彼此之间不算近似重复
+const BLANK_HASH = "0000000000000000";
+
+export function findDuplicateGroups(photos: Photo[], maxDistance = NEAR_DUPLICATE_DISTANCE): DuplicateGroup[] {
+  const groups: DuplicateGroup[] = [];
+
+  for (const members of clusterDuplicates(photos, maxDistance)) {
+    if (members.length < 2) continue;
+    const key = exactKey(members[0]!);
+    groups.push({
+      kind: key && members.every(p => exactKey(p) === key) ? "exact" : "near",
+      photos: members,
+    });
+  }
+
+  return groups.sort((a, b) => b.photos.length - a.photos.length);
+}
+
+// 每组重复只保留一张（分辨率最高的），其余照片保持原有顺序
+export function collapseDuplicates(photos: Photo[], maxDistance = NEAR_DUPLICATE_DISTANCE): Photo[] {
+  const keep = new Set(clusterDuplicates(photos, maxDistance).map(members => members[0]!));
+  return photos.filter(photo => keep.has(photo));
+}
+
+// 返回所有分组（包括只有一张的），组内按建议保留的顺序排列
+function clusterDuplicates(photos: Photo[], maxDistance: number): Photo[][] {
+  const parent = photos.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]!]!;
+      i = parent[i]!;
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    parent[find(a)] = find(b);
+  };
+
+  // 完全重复
+  const byContent = new Map<string, number>();
+  photos.forEach((photo, i) => {
+    const key = exactKey(photo);
+    if (!key) return;
+    const first = byContent.get(key);
+    if (first === undefined) {
+      byContent.set(key, i);
+    } else {
+      union(i, first);
+    }
+  });
+
+  // 近似重复：把 64 位分成 maxDistance + 1 段，距离不超过 maxDistance 的两个哈希
+  // 至少有一段完全相同，只需要比较有相同段的照片
+  const distance = Math.max(0, Math.min(maxDistance, MAX_DUPLICATE_DISTANCE));
+  const segments = distance + 1;
+  const buckets = new Map<string, number[]>();
+  photos.forEach((photo, i) => {
+    const hash = photo.perceptualHash;
+    if (!hash || hash === BLANK_HASH) return;
+    const value = BigInt(`0x${hash}`);
+
+    for (let s = 0; s < segments; s++) {
+      const start = Math.floor((64 * s) / segments);
+      const end = Math.floor((64 * (s + 1)) / segments);
+      const bits = (value >> BigInt(start)) & ((1n << BigInt(end - start)) - 1n);
+      const key = `${s}:${bits}`;
+
+      const bucket = buckets.get(key);
+      if (!bucket) {
+        buckets.set(key, [i]);
+        continue;
+      }
+      for (const j of bucket) {
+        if (find(i) !== find(j) && hammingDistance(hash, photos[j]!.perceptualHash!) <= distance) {
+          union(i, j);
+        }
+      }
+      bucket.push(i);
+    }
+  });
+
+  const clusters = new Map<number, Photo[]>();
+  photos.forEach((photo, i) => {
+    const root = find(i);
+    const members = clusters.get(root) || [];
+    members.push(photo);
+    clusters.set(root, members);
+  });
+
+  return [...clusters.values()].map(members => members.sort(compareQuality));
+}
+
+// 完全重复的分组依据；没有完整内容哈希时（指纹没有与其他文件相同，或者还没有计算）不参与
+function exactKey(photo: Photo): string | undefined {
+  return photo.contentHash && photo.fullHash ? `${photo.contentHash}:${photo.fullHash}` : undefined;
+}
+
+// 分辨率高的优先，其次是拍摄时间来自 EXIF 的（通常是原始文件而不是转发的副本）
+function compareQuality(a: Photo, b: Photo): number {
+  const pixels = (b.width ?? 0) * (b.height ?? 0) - (a.width ?? 0) * (a.height ?? 0);
+  if (pixels !== 0) return pixels;
+  return Number(b.dateSource === "exif") - Number(a.dateSource === "exif");
+}
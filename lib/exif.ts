@@ -0,0 +1,297 @@
+// EXIF 读取：只读取文件头和元数据所在的区域，不加载整个文件
+import ExifReader from "exifreader";
+import type { BunFile } from "bun";
+import { readBoxes, readType } from "./bmff";
+import type { Photo } from "./types";
+
+export type ExifTags = ExifReader.ExpandedTags;
+
+// JPEG 的 APP 段（EXIF、内嵌缩略图、ICC）和 PNG / WebP 的头部都在文件开头
+const HEAD_SIZE = 256 * 1024;
+
+// HEIF 的 meta 盒子最大读取大小，防止损坏文件导致读取整个大文件
+const MAX_META_SIZE = 16 * 1024 * 1024;
+
+const HEIF_BRANDS = new Set(["heic", "heix", "hevc", "hevx", "heim", "heis", "hevm", "hevs", "mif1", "msf1"]);
+
+interface Extent {
+  offset: number;
+  length: number;
+}
+
+export async function readExifTags(filePath: string): Promise<ExifTags> {
+  const file = Bun.file(filePath);
+  const size = file.size;
+  const head = new Uint8Array(await file.slice(0, Math.min(HEAD_SIZE, size)).arrayBuffer());
+
+  if (head.byteLength >= size) {
+    return ExifReader.load(head.buffer, { expanded: true });
+  }
+
+  // HEIF 的 EXIF 是 mdat 中的一个 item，位置由 meta 盒子里的 iloc 给出
+  if (isHeif(head)) {
+    const buffer = await readHeifMetadata(file, head);
+    if (buffer) {
+      return ExifReader.load(buffer, { expanded: true });
+    }
+  }
+
+  // TIFF 和基于 TIFF 的 RAW 的 IFD 可能写在图像数据之后
+  const ifdOffset = tiffIfdOffset(head);
+  if (ifdOffset !== undefined && ifdOffset >= head.byteLength && ifdOffset < size) {
+    return ExifReader.load(await readTiffMetadata(file, head, ifdOffset), { expanded: true });
+  }
+
+  // 其他格式的元数据都在文件头中，这里没有就是没有（ExifReader 抛出 MetadataMissingError）
+  return ExifReader.load(head.buffer, { expanded: true });
+}
+
+// EXIF 中内嵌的 JPEG 缩略图（IFD1，通常 160×120）和原图的方向。没有或读取失败时返回 null
+export async function readExifThumbnail(filePath: string): Promise<{ data: Uint8Array; orientation: number } | null> {
+  try {
+    const tags = await readExifTags(filePath);
+    const image = tags.Thumbnail?.image;
+    if (!image) return null;
+    const data = image instanceof Uint8Array ? image : new Uint8Array(image as ArrayBuffer);
+    return { data, orientation: readOrientation(tags) ?? 1 };
+  } catch {
+    return null;
+  }
+}
+
+// EXIF 方向，1（正常）和无效值返回 undefined
+export function readOrientation(tags: ExifTags): number | undefined {
+  const value = tags.exif?.Orientation?.value;
+  return typeof value === "number" && value >= 2 && value <= 8 ? value : undefined;
+}
+
+// 方向 5-8 旋转了 90°，显示时宽高互换
+export function applyDisplayDimensions(photo: Photo): void {
+  if (!photo.width || !photo.height) return;
+  const rotated = (photo.orientation ?? 1) >= 5;
+  photo.displayWidth = rotated ? photo.height : photo.width;
+  photo.displayHeight = rotated ? photo.width : photo.height;
+}
+
+// Apple MakerNote 中用于关联文件的标识
+export interface AppleIdentifiers {
+  contentIdentifier?: string; // Live Photo 的照片和视频相同
+  burstId?: string;           // 同一组连拍相同
+}
+
+const APPLE_MAKER_NOTE_HEADER = "Apple iOS\0";
+const APPLE_BURST_UUID = 0x000b;
+const APPLE_CONTENT_IDENTIFIER = 0x0011;
+
+// Apple MakerNote："Apple iOS\0" + 版本 (2) + 字节序 (2)，之后是一个 IFD，偏移相对于 MakerNote 开头
+export function readAppleIdentifiers(tags: ExifTags): AppleIdentifiers {
+  const value = (tags.exif?.MakerNote as { value?: unknown } | undefined)?.value;
+  if (!Array.isArray(value) || value.length < 16) return {};
+
+  const bytes = Uint8Array.from(value as number[]);
+  if (String.fromCharCode(...bytes.subarray(0, APPLE_MAKER_NOTE_HEADER.length)) !== APPLE_MAKER_NOTE_HEADER) {
+    return {};
+  }
+
+  const view = new DataView(bytes.buffer);
+  const littleEndian = String.fromCharCode(bytes[12]!, bytes[13]!) === "II";
+  const identifiers: AppleIdentifiers = {};
+
+  try {
+    const count = view.getUint16(14, littleEndian);
+    for (let i = 0; i < count; i++) {
+      const entry = 16 + i * 12;
+      const tag = view.getUint16(entry, littleEndian);
+      if (tag !== APPLE_BURST_UUID && tag !== APPLE_CONTENT_IDENTIFIER) continue;
+
+      // 只处理 ASCII 字符串（类型 2）；不超过 4 字节时直接存放在偏移字段中
+      if (view.getUint16(entry + 2, littleEndian) !== 2) continue;
+      const length = view.getUint32(entry + 4, littleEndian);
+      const offset = length <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian);
+      if (offset + length > bytes.byteLength) continue;
+
+      const text = String.fromCharCode(...bytes.subarray(offset, offset + length)).replace(/\0+$/, "").trim();
+      if (!text) continue;
+      if (tag === APPLE_BURST_UUID) identifiers.burstId = text;
+      else identifiers.contentIdentifier = text;
+    }
+  } catch {}
+
+  return identifiers;
+}
+
+function isHeif(head: Uint8Array): boolean {
+  if (head.byteLength < 12) return false;
+  const view = new DataView(head.buffer, head.byteOffset, head.byteLength);
+  return readType(view, 4) === "ftyp" && HEIF_BRANDS.has(readType(view, 8));
+}
+
+// TIFF 文件头（II*\0 / MM\0*，以及 ORF、RW2 的变体）中第一个 IFD 的偏移，不是 TIFF 时返回 undefined
+function tiffIfdOffset(head: Uint8Array): number | undefined {
+  if (head.byteLength < 8) return undefined;
+  const order = String.fromCharCode(head[0]!, head[1]!);
+  if (order !== "II" && order !== "MM") return undefined;
+  const view = new DataView(head.buffer, head.byteOffset, head.byteLength);
+  const littleEndian = order === "II";
+  const magic = view.getUint16(2, littleEndian);
+  if (magic !== 42 && magic !== 0x4f52 && magic !== 0x5352 && magic !== 0x55) return undefined;
+  return view.getUint32(4, littleEndian);
+}
+
+// 和 HEIF 一样构造稀疏缓冲区：文件头加上 IFD 之后的一段（EXIF 子 IFD 和标签值通常紧跟在后面）
+async function readTiffMetadata(file: BunFile, head: Uint8Array, ifdOffset: number): Promise<ArrayBuffer> {
+  const end = Math.min(file.size, ifdOffset + HEAD_SIZE);
+  const buffer = new Uint8Array(end);
+  buffer.set(head, 0);
+  buffer.set(new Uint8Array(await file.slice(ifdOffset, end).arrayBuffer()), ifdOffset);
+  return buffer.buffer;
+}
+
+// 构造一个只填充了文件头、meta 盒子和 EXIF 数据的稀疏缓冲区，
+// 偏移与原文件一致，ExifReader 可以按原样解析
+async function readHeifMetadata(file: BunFile, head: Uint8Array): Promise<ArrayBuffer | undefined> {
+  try {
+    const meta = findTopLevelBox(new DataView(head.buffer, head.byteOffset, head.byteLength), "meta");
+    if (!meta || meta.end - meta.offset > MAX_META_SIZE || meta.end > file.size) return undefined;
+
+    const metaBytes = meta.end <= head.byteLength
+      ? head.subarray(meta.offset, meta.end)
+      : new Uint8Array(await file.slice(meta.offset, meta.end).arrayBuffer());
+    const metaView = new DataView(metaBytes.buffer, metaBytes.byteOffset, metaBytes.byteLength);
+    const extents = findExifExtents(metaView, meta.headerSize);
+
+    const end = Math.max(head.byteLength, meta.end, ...extents.map(e => e.offset + e.length));
+    if (end > file.size) return undefined;
+
+    const buffer = new Uint8Array(end);
+    buffer.set(head, 0);
+    buffer.set(metaBytes, meta.offset);
+    for (const extent of extents) {
+      const data = await file.slice(extent.offset, extent.offset + extent.length).arrayBuffer();
+      buffer.set(new Uint8Array(data), extent.offset);
+    }
+    return buffer.buffer;
+  } catch {
+    return undefined;
+  }
+}
+
+// 顶层盒子可能超出已读取的范围，只需要盒子头在范围内
+function findTopLevelBox(view: DataView, type: string): { offset: number; headerSize: number; end: number } | undefined {
+  let offset = 0;
+
+  while (offset + 16 <= view.byteLength) {
+    let size = view.getUint32(offset);
+    let headerSize = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8));
+      headerSize = 16;
+    }
+    if (size < headerSize) return undefined;
+
+    if (readType(view, offset + 4) === type) {
+      return { offset, headerSize, end: offset + size };
+    }
+    offset += size;
+  }
+
+  return undefined;
+}
+
+// meta -> iinf 找到 Exif item，meta -> iloc 找到它在文件中的位置
+function findExifExtents(view: DataView, headerSize: number): Extent[] {
+  let exifItemId: number | undefined;
+  let iloc: { start: number; end: number } | undefined;
+
+  // meta 是 FullBox，子盒子从版本和标志之后开始
+  for (const box of readBoxes(view, headerSize + 4, view.byteLength)) {
+    if (box.type === "iinf") {
+      exifItemId = findExifItemId(view, box.start, box.end);
+    } else if (box.type === "iloc") {
+      iloc = box;
+    }
+  }
+
+  if (exifItemId === undefined || !iloc) return [];
+  return readItemExtents(view, iloc.start, exifItemId);
+}
+
+function findExifItemId(view: DataView, start: number, end: number): number | undefined {
+  const version = view.getUint8(start);
+  const entriesStart = start + 4 + (version === 0 ? 2 : 4);
+
+  for (const infe of readBoxes(view, entriesStart, end)) {
+    if (infe.type !== "infe") continue;
+
+    // 只有 v2 及以上的 infe 带有 item_type
+    const infeVersion = view.getUint8(infe.start);
+    if (infeVersion < 2) continue;
+
+    const idSize = infeVersion === 2 ? 2 : 4;
+    const itemId = readUint(view, infe.start + 4, idSize);
+    if (readType(view, infe.start + 4 + idSize + 2) === "Exif") {
+      return itemId;
+    }
+  }
+
+  return undefined;
+}
+
+function readItemExtents(view: DataView, start: number, itemId: number): Extent[] {
+  const version = view.getUint8(start);
+  let pos = start + 4;
+
+  const offsetSize = view.getUint8(pos) >> 4;
+  const lengthSize = view.getUint8(pos) & 0xf;
+  const baseOffsetSize = view.getUint8(pos + 1) >> 4;
+  const indexSize = version === 1 || version === 2 ? view.getUint8(pos + 1) & 0xf : 0;
+  pos += 2;
+
+  const idSize = version < 2 ? 2 : 4;
+  const itemCount = readUint(view, pos, idSize);
+  pos += idSize;
+
+  for (let i = 0; i < itemCount; i++) {
+    const id = readUint(view, pos, idSize);
+    pos += idSize;
+
+    let constructionMethod = 0;
+    if (version === 1 || version === 2) {
+      constructionMethod = view.getUint16(pos) & 0xf;
+      pos += 2;
+    }
+    pos += 2; // data_reference_index
+
+    const baseOffset = readUint(view, pos, baseOffsetSize);
+    pos += baseOffsetSize;
+    const extentCount = view.getUint16(pos);
+    pos += 2;
+
+    const extents: Extent[] = [];
+    for (let j = 0; j < extentCount; j++) {
+      pos += indexSize;
+      const offset = readUint(view, pos, offsetSize);
+      pos += offsetSize;
+      const length = readUint(view, pos, lengthSize);
+      pos += lengthSize;
+      extents.push({ offset: baseOffset + offset, length });
+    }
+
+    if (id === itemId) {
+      // 只处理以文件偏移存放的数据；存放在 idat 中的已经包含在 meta 盒子里
+      return constructionMethod === 0 ? extents : [];
+    }
+  }
+
+  return [];
+}
+
+function readUint(view: DataView, offset: number, size: number): number {
+  switch (size) {
+    case 0: return 0;
+    case 2: return view.getUint16(offset);
+    case 4: return view.getUint32(offset);
+    case 8: return Number(view.getBigUint64(offset));
+    default: throw new Error(`Unsupported field size ${size}`);
+  }
+}
@@ -0,0 +1,93 @@
+// 人脸头像裁剪 (sharp)，结果缓存在数据目录中
+import sharp from "sharp";
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync } from "node:fs";
+import { rename } from "node:fs/promises";
+import { join } from "node:path";
+import type { Photo, FaceRegion } from "./types";
+
+const AVATAR_SIZE = 256;
+
+// 人脸框四周额外保留的比例，让头像包含头发和下巴
+const FACE_PADDING = 0.3;
+
+export class FaceCropper {
+  private cacheDir: string;
+  private pending: Map<string, Promise<string | null>> = new Map();
+
+  constructor(cacheDir: string) {
+    this.cacheDir = cacheDir;
+    mkdirSync(cacheDir, { recursive: true });
+  }
+
+  // 返回裁剪好的头像文件路径，无法裁剪时返回 null
+  async getCrop(photo: Photo, face: FaceRegion): Promise<string | null> {
+    // 照片内容或人脸框变化后使用新的缓存文件
+    const key = createHash("sha1")
+      .update(JSON.stringify([photo.id, photo.contentHash, face.id, face.x, face.y, face.w, face.h]))
+      .digest("hex");
+    const cropPath = join(this.cacheDir, `${key}.jpg`);
+    if (existsSync(cropPath)) return cropPath;
+
+    // 同一头像的并发请求只裁剪一次
+    let task = this.pending.get(key);
+    if (!task) {
+      task = this.crop(photo, face, cropPath).finally(() => this.pending.delete(key));
+      this.pending.set(key, task);
+    }
+    return task;
+  }
+
+  private async crop(photo: Photo, face: FaceRegion, cropPath: string): Promise<string | null> {
+    // Synology 缩略图与原图比例相同，优先使用：更小，而且 HEIC 原图不一定能解码
+    const sources = [photo.thumbnail, photo.mediaType === "video" ? undefined : photo.path]
+      .filter((source): source is string => !!source);
+
+    for (const source of sources) {
+      try {
+        const metadata = await sharp(source).metadata();
+        if (!metadata.width || !metadata.height) continue;
+
+        // 人脸坐标基于摆正后的图片，EXIF 方向 5-8 需要交换宽高
+        const rotated = (metadata.orientation ?? 1) >= 5;
+        const width = rotated ? metadata.height : metadata.width;
+        const height = rotated ? metadata.width : metadata.height;
+
+        const region = faceRegion(face, width, height);
+        const tempPath = `${cropPath}.tmp`;
+        await sharp(source)
+          .rotate()
+          .extract(region)
+          .resize(AVATAR_SIZE, AVATAR_SIZE, { fit: "cover" })
+          .jpeg({ quality: 85 })
+          .toFile(tempPath);
+        await rename(tempPath, cropPath);
+        return cropPath;
+      } catch (error) {
+        console.error(`Failed to crop face ${face.id} from ${source}:`, error);
+      }
+    }
+
+    return null;
+  }
+}
+
+// 以人脸为中心的正方形区域（像素），超出图片的部分截掉
+function faceRegion(face: FaceRegion, width: number, height: number) {
+  const centerX = (face.x + face.w / 2) * width;
+  const centerY = (face.y + face.h / 2) * height;
+  const size = Math.max(face.w * width, face.h * height) * (1 + FACE_PADDING * 2);
+
+  const left = clamp(Math.round(centerX - size / 2), 0, width - 1);
+  const top = clamp(Math.round(centerY - size / 2), 0, height - 1);
+  return {
+    left,
+    top,
+    width: clamp(Math.round(size), 1, width - left),
+    height: clamp(Math.round(size), 1, height - top),
+  };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
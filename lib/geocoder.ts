@@ -0,0 +1,127 @@
+// 离线反向地理编码：在 GeoNames 人口 1000 以上的城市中查找离坐标最近的一个。
+// 数据集只在第一次查询时加载，按 1° 网格建立索引
+import type { Place } from "./types";
+
+// 网格大小（度）
+const CELL_SIZE = 1;
+
+// 最近的城市超过这个距离时不返回结果（海上、荒野）
+const MAX_DISTANCE_KM = 100;
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE = (Math.PI * EARTH_RADIUS_KM) / 180;
+
+// 国家名称与界面语言一致
+const COUNTRY_NAMES = new Intl.DisplayNames(["zh-CN"], { type: "region" });
+
+interface CityIndex {
+  latitudes: Float64Array;
+  longitudes: Float64Array;
+  names: string[];
+  countries: string[];   // ISO 3166-1 代码
+  provinces: string[];   // 一级行政区名称，未知时为空字符串
+  cells: Map<number, number[]>;
+}
+
+interface CityRecord {
+  name: string;
+  lat: string;
+  lng: string;
+  country: string;
+  admin1: string;
+}
+
+export class ReverseGeocoder {
+  private index: Promise<CityIndex> | null = null;
+
+  async lookup(latitude: number, longitude: number): Promise<Place | undefined> {
+    const index = await (this.index ??= loadIndex());
+
+    const latRange = Math.ceil(MAX_DISTANCE_KM / KM_PER_DEGREE / CELL_SIZE);
+    const lonScale = Math.max(Math.cos((latitude * Math.PI) / 180), 0.01);
+    const lonRange = Math.min(Math.ceil(MAX_DISTANCE_KM / (KM_PER_DEGREE * lonScale) / CELL_SIZE), 180 / CELL_SIZE);
+    const row = Math.floor(latitude / CELL_SIZE);
+    const column = Math.floor(longitude / CELL_SIZE);
+
+    let best = -1;
+    let bestDistance = MAX_DISTANCE_KM;
+    for (let r = row - latRange; r <= row + latRange; r++) {
+      for (let c = column - lonRange; c <= column + lonRange; c++) {
+        for (const i of index.cells.get(cellKey(r, c)) ?? []) {
+          const distance = haversine(latitude, longitude, index.latitudes[i]!, index.longitudes[i]!);
+          if (distance <= bestDistance) {
+            best = i;
+            bestDistance = distance;
+          }
+        }
+      }
+    }
+    if (best < 0) return undefined;
+
+    const countryCode = index.countries[best]!;
+    return {
+      country: COUNTRY_NAMES.of(countryCode) ?? countryCode,
+      countryCode,
+      province: index.provinces[best] || undefined,
+      city: index.names[best]!,
+    };
+  }
+}
+
+// 缓存键：坐标精确到 0.01°（约 1 公里），同一地点附近的照片共用结果
+export function geocodeKey(latitude: number, longitude: number): string {
+  return `${latitude.toFixed(2)},${longitude.toFixed(2)}`;
+}
+
+async function loadIndex(): Promise<CityIndex> {
+  const cities: CityRecord[] = await Bun.file(Bun.resolveSync("cities.json/cities.json", import.meta.dir)).json();
+  const admin1: Array<{ code: string; name: string }> =
+    await Bun.file(Bun.resolveSync("cities.json/admin1.json", import.meta.dir)).json();
+  const provinceNames = new Map(admin1.map(a => [a.code, a.name]));
+
+  const index: CityIndex = {
+    latitudes: new Float64Array(cities.length),
+    longitudes: new Float64Array(cities.length),
+    names: new Array(cities.length),
+    countries: new Array(cities.length),
+    provinces: new Array(cities.length),
+    cells: new Map(),
+  };
+
+  cities.forEach((city, i) => {
+    const latitude = Number(city.lat);
+    const longitude = Number(city.lng);
+    index.latitudes[i] = latitude;
+    index.longitudes[i] = longitude;
+    index.names[i] = city.name;
+    index.countries[i] = city.country;
+    index.provinces[i] = provinceNames.get(`${city.country}.${city.admin1}`) ?? "";
+
+    const key = cellKey(Math.floor(latitude / CELL_SIZE), Math.floor(longitude / CELL_SIZE));
+    const cell = index.cells.get(key);
+    if (cell) {
+      cell.push(i);
+    } else {
+      index.cells.set(key, [i]);
+    }
+  });
+
+  console.log(`Loaded ${cities.length} cities for reverse geocoding`);
+  return index;
+}
+
+// 经度方向首尾相接（跨越 180° 经线）
+function cellKey(row: number, column: number): number {
+  const columns = 360 / CELL_SIZE;
+  const wrapped = ((column % columns) + columns) % columns;
+  return row * columns + wrapped;
+}
+
+function haversine(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
@@ -0,0 +1,32 @@
+// 文件内容指纹
+import { createHash } from "node:crypto";
+
+const SAMPLE_SIZE = 64 * 1024;
+const FULL_HASH_CHUNK_SIZE = 4 * 1024 * 1024;
+
+// 快速内容哈希：文件大小 + 首尾各 64KB
+// 足以识别同一文件的移动和重命名，不需要读取整个大文件
+export async function computeContentHash(filePath: string): Promise<string> {
+  const file = Bun.file(filePath);
+  const size = file.size;
+  const hash = createHash("sha1");
+
+  hash.update(String(size));
+  hash.update(new Uint8Array(await file.slice(0, SAMPLE_SIZE).arrayBuffer()));
+  if (size > SAMPLE_SIZE) {
+    const tailStart = Math.max(SAMPLE_SIZE, size - SAMPLE_SIZE);
+    hash.update(new Uint8Array(await file.slice(tailStart, size).arrayBuffer()));
+  }
+
+  return hash.digest("hex");
+}
+
+// 完整内容的哈希，只用于确认采样指纹相同的文件是否真的完全相同（中间部分可能不同，例如重新编码的视频）
+export async function computeFullHash(filePath: string): Promise<string> {
+  const file = Bun.file(filePath);
+  const hash = createHash("sha1");
+  for (let offset = 0; offset < file.size; offset += FULL_HASH_CHUNK_SIZE) {
+    hash.update(new Uint8Array(await file.slice(offset, offset + FULL_HASH_CHUNK_SIZE).arrayBuffer()));
+  }
+  return hash.digest("hex");
+}
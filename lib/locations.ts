@@ -0,0 +1,301 @@
+// 地点层级（国家 → 省份 → 城市 → 地点）和 GPS 聚类。
+// 地点由 DBSCAN 聚类得到：半径 PLACE_RADIUS_M 内至少 PLACE_MIN_PHOTOS 张照片的密集区域连成一个地点，
+// 零散的照片只归到城市
+import type { GeoBounds, Location, LocationFilter } from "./types";
+
+const PLACE_RADIUS_M = 250;
+const PLACE_MIN_PHOTOS = 3;
+
+const EARTH_RADIUS_M = 6371000;
+const METERS_PER_DEGREE = (Math.PI * EARTH_RADIUS_M) / 180;
+
+export interface GeoPoint {
+  id: string;
+  latitude: number;
+  longitude: number;
+}
+
+// 参与聚类的照片
+export interface PlacePoint extends GeoPoint {
+  country: string;
+  province?: string;
+  city: string;
+  address?: string; // Synology 地理编码的详细地址
+  placeId?: number; // 上次聚类所属的地点
+}
+
+// 聚类结果，members 为照片 ID
+export interface PlaceCluster {
+  members: string[];
+  latitude: number; // 质心
+  longitude: number;
+  bounds: GeoBounds;
+}
+
+// 已保存的地点
+export interface PlaceRecord {
+  id: number;
+  name: string;
+  country?: string;
+  province?: string;
+  city?: string;
+  latitude: number;
+  longitude: number;
+  bounds: GeoBounds;
+}
+
+// 构建地点树所需的照片字段
+export interface LocationPhoto {
+  id: string;
+  latitude?: number;
+  longitude?: number;
+  country: string;
+  province?: string;
+  city?: string;
+  placeId?: number;
+}
+
+export function clusterPlaces(points: GeoPoint[]): PlaceCluster[] {
+  // 网格边长等于聚类半径，邻居只可能在相邻的格子里（经度方向按纬度放宽）
+  const cellDegrees = PLACE_RADIUS_M / METERS_PER_DEGREE;
+  const cells = new Map<string, number[]>();
+  const cellOf = (p: GeoPoint) => [Math.floor(p.latitude / cellDegrees), Math.floor(p.longitude / cellDegrees)] as const;
+  points.forEach((point, i) => {
+    const key = cellOf(point).join(",");
+    const cell = cells.get(key);
+    if (cell) cell.push(i);
+    else cells.set(key, [i]);
+  });
+
+  const neighbors = (i: number): number[] => {
+    const point = points[i]!;
+    const [row, column] = cellOf(point);
+    const columns = Math.ceil(1 / Math.max(Math.cos((point.latitude * Math.PI) / 180), 0.01));
+    const result: number[] = [];
+    for (let r = row - 1; r <= row + 1; r++) {
+      for (let c = column - columns; c <= column + columns; c++) {
+        for (const j of cells.get(`${r},${c}`) ?? []) {
+          if (distanceMeters(point, points[j]!) <= PLACE_RADIUS_M) result.push(j);
+        }
+      }
+    }
+    return result;
+  };
+
+  // DBSCAN：0 未访问，-1 噪声，其余为聚类编号
+  const labels = new Int32Array(points.length);
+  let clusterCount = 0;
+  for (let i = 0; i < points.length; i++) {
+    if (labels[i] !== 0) continue;
+    const seeds = neighbors(i);
+    if (seeds.length < PLACE_MIN_PHOTOS) {
+      labels[i] = -1;
+      continue;
+    }
+
+    const label = ++clusterCount;
+    labels[i] = label;
+    const queue = seeds;
+    while (queue.length > 0) {
+      const j = queue.pop()!;
+      if (labels[j] === -1) labels[j] = label; // 边界点
+      if (labels[j] !== 0) continue;
+      labels[j] = label;
+      const expansion = neighbors(j);
+      if (expansion.length >= PLACE_MIN_PHOTOS) queue.push(...expansion);
+    }
+  }
+
+  const clusters: PlaceCluster[] = [];
+  const members: GeoPoint[][] = Array.from({ length: clusterCount }, () => []);
+  points.forEach((point, i) => {
+    if (labels[i]! > 0) members[labels[i]! - 1]!.push(point);
+  });
+  for (const group of members) {
+    const stats = new GeoStats();
+    group.forEach(point => stats.add(point.latitude, point.longitude));
+    clusters.push({
+      members: group.map(point => point.id),
+      latitude: stats.latitude()!,
+      longitude: stats.longitude()!,
+      bounds: stats.bounds()!,
+    });
+  }
+  return clusters;
+}
+
+// 地点按城市分别聚类，城市由国家、省份和城市名确定
+export function cityKey(point: { country?: string; province?: string; city?: string }): string {
+  return [point.country ?? "", point.province ?? "", point.city ?? ""].join("\n");
+}
+
+// 为重新聚类得到的地点沿用已有地点的 ID，这样客户端保存的 ?place= 在照片变化后仍然指向同一个地点。
+// 优先匹配成员重合最多的已有地点，其次是质心在聚类半径内的；没有匹配的为 undefined（新地点）。
+// existing 为同一城市中已有的地点
+export function matchPlaceIds(
+  clusters: PlaceCluster[],
+  existing: PlaceRecord[],
+  placeOf: Map<string, number>,
+): Array<number | undefined> {
+  const ids: Array<number | undefined> = clusters.map(() => undefined);
+  const claimed = new Set<number>();
+  const candidates = new Set(existing.map(place => place.id));
+
+  const overlaps: Array<{ cluster: number; place: number; count: number }> = [];
+  clusters.forEach((cluster, i) => {
+    const counts = new Map<number, number>();
+    for (const member of cluster.members) {
+      const place = placeOf.get(member);
+      if (place !== undefined && candidates.has(place)) counts.set(place, (counts.get(place) ?? 0) + 1);
+    }
+    for (const [place, count] of counts) overlaps.push({ cluster: i, place, count });
+  });
+  for (const { cluster, place } of overlaps.sort((a, b) => b.count - a.count)) {
+    if (ids[cluster] !== undefined || claimed.has(place)) continue;
+    ids[cluster] = place;
+    claimed.add(place);
+  }
+
+  clusters.forEach((cluster, i) => {
+    if (ids[i] !== undefined) return;
+    let nearest: { id: number; distance: number } | undefined;
+    for (const place of existing) {
+      if (claimed.has(place.id)) continue;
+      const distance = distanceMeters(cluster, place);
+      if (distance <= PLACE_RADIUS_M && (!nearest || distance < nearest.distance)) {
+        nearest = { id: place.id, distance };
+      }
+    }
+    if (nearest) {
+      ids[i] = nearest.id;
+      claimed.add(nearest.id);
+    }
+  });
+  return ids;
+}
+
+// 按国家、省份、城市、地点组织照片。没有省份的城市直接挂在国家下面
+export function buildLocationTree(photos: LocationPhoto[], places: Map<number, PlaceRecord>): Location[] {
+  const roots = new Map<string, TreeNode>();
+
+  for (const photo of photos) {
+    const country = child(roots, photo.country, "country", { country: photo.country });
+    let parent = country;
+    if (photo.province) {
+      parent = child(country.children, photo.province, "region", { country: photo.country, region: photo.province });
+    }
+    const nodes = [country, parent];
+    if (photo.city) {
+      const city = child(parent.children, photo.city, "city", { ...parent.filter, city: photo.city });
+      nodes.push(city);
+      const place = photo.placeId !== undefined ? places.get(photo.placeId) : undefined;
+      if (place) {
+        nodes.push(child(city.children, place.name, "place", { place: place.id }, `place:${place.id}`));
+      }
+    }
+
+    for (const node of new Set(nodes)) {
+      node.photoCount++;
+      node.coverPhoto ??= photo.id;
+      if (photo.latitude !== undefined && photo.longitude !== undefined) {
+        node.stats.add(photo.latitude, photo.longitude);
+      }
+    }
+  }
+
+  return toLocations(roots);
+}
+
+// 树中所有节点（先序），用于统计和随机选择
+export function flattenLocations(locations: Location[], parents: Location[] = []): Array<{ location: Location; parents: Location[] }> {
+  return locations.flatMap(location => [
+    { location, parents },
+    ...flattenLocations(location.children || [], [...parents, location]),
+  ]);
+}
+
+interface TreeNode {
+  key: string;
+  level: Location["level"];
+  name: string;
+  filter: LocationFilter;
+  photoCount: number;
+  coverPhoto?: string;
+  stats: GeoStats;
+  children: Map<string, TreeNode>;
+}
+
+function child(
+  nodes: Map<string, TreeNode>,
+  name: string,
+  level: Location["level"],
+  filter: LocationFilter,
+  key = name,
+): TreeNode {
+  let node = nodes.get(key);
+  if (!node) {
+    node = { key, level, name, filter, photoCount: 0, stats: new GeoStats(), children: new Map() };
+    nodes.set(key, node);
+  }
+  return node;
+}
+
+function toLocations(nodes: Map<string, TreeNode>): Location[] {
+  return Array.from(nodes.values())
+    .sort((a, b) => b.photoCount - a.photoCount)
+    .map(node => ({
+      id: JSON.stringify(node.filter),
+      level: node.level,
+      name: node.name,
+      filter: node.filter,
+      latitude: node.stats.latitude(),
+      longitude: node.stats.longitude(),
+      bounds: node.stats.bounds(),
+      photoCount: node.photoCount,
+      coverPhoto: node.coverPhoto,
+      children: node.children.size > 0 ? toLocations(node.children) : undefined,
+    }));
+}
+
+// 质心和边界
+class GeoStats {
+  private count = 0;
+  private latSum = 0;
+  private lonSum = 0;
+  private box: GeoBounds | undefined;
+
+  add(latitude: number, longitude: number): void {
+    this.count++;
+    this.latSum += latitude;
+    this.lonSum += longitude;
+    if (!this.box) {
+      this.box = { north: latitude, south: latitude, east: longitude, west: longitude };
+    } else {
+      this.box.north = Math.max(this.box.north, latitude);
+      this.box.south = Math.min(this.box.south, latitude);
+      this.box.east = Math.max(this.box.east, longitude);
+      this.box.west = Math.min(this.box.west, longitude);
+    }
+  }
+
+  latitude(): number | undefined {
+    return this.count > 0 ? this.latSum / this.count : undefined;
+  }
+
+  longitude(): number | undefined {
+    return this.count > 0 ? this.lonSum / this.count : undefined;
+  }
+
+  bounds(): GeoBounds | undefined {
+    return this.box && { ...this.box };
+  }
+}
+
+function distanceMeters(a: Omit<GeoPoint, "id">, b: Omit<GeoPoint, "id">): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(h));
+}
@@ -0,0 +1,78 @@
+// 文件内嵌的元数据：照片的 EXIF，视频的容器元数据
+import { readAppleIdentifiers, readOrientation, type ExifTags } from "../exif";
+import { isRawFile } from "../stacks";
+import { readVideoMetadata } from "../video";
+import { applyExifCaptureTime, setCaptureInstant } from "../dates";
+import type { Photo } from "../types";
+import type { MetadataContext, MetadataProvider } from "./provider";
+
+export const exifProvider: MetadataProvider = {
+  name: "exif",
+
+  async read(fields: Photo, context: MetadataContext): Promise<void> {
+    if (context.isVideo) {
+      await readVideo(fields, context.filePath);
+      return;
+    }
+
+    // 读取失败时拍摄时间由后面的提供者补全
+    const tags = await context.exifTags();
+    if (!tags) return;
+
+    // 拍摄时间（当地时间，以及 EXIF 偏移或 GPS 时间给出的时区）
+    applyExifCaptureTime(tags, fields);
+
+    // 图片尺寸和方向
+    Object.assign(fields, readDimensions(tags, isRawFile(context.filePath)));
+    fields.orientation = readOrientation(tags);
+
+    // GPS 位置
+    if (tags.gps?.Latitude && tags.gps?.Longitude) {
+      fields.latitude = tags.gps.Latitude;
+      fields.longitude = tags.gps.Longitude;
+    }
+
+    // Live Photo 和连拍的关联标识
+    Object.assign(fields, readAppleIdentifiers(tags));
+
+    // 相机信息
+    if (tags.exif?.Make && tags.exif?.Model) {
+      fields.camera = `${tags.exif.Make.description} ${tags.exif.Model.description}`;
+    }
+
+    if (tags.exif?.LensModel) {
+      fields.lens = tags.exif.LensModel.description;
+    }
+  },
+};
+
+// 图像数据的尺寸（JPEG / PNG / WebP 的文件头），其次是 EXIF 记录的尺寸。
+// TIFF 的 IFD0 是主图像；RAW 的 IFD0 通常是小缩略图，不使用
+function readDimensions(tags: ExifTags, isRaw: boolean): { width?: number; height?: number } {
+  const candidates = [
+    [tags.file?.["Image Width"]?.value, tags.file?.["Image Height"]?.value],
+    [tags.pngFile?.["Image Width"]?.value, tags.pngFile?.["Image Height"]?.value],
+    [tags.exif?.PixelXDimension?.value, tags.exif?.PixelYDimension?.value],
+    isRaw ? [] : [tags.exif?.ImageWidth?.value, tags.exif?.ImageLength?.value],
+  ];
+  for (const [width, height] of candidates) {
+    if (typeof width === "number" && typeof height === "number" && width > 0 && height > 0) {
+      return { width, height };
+    }
+  }
+  return {};
+}
+
+async function readVideo(fields: Photo, filePath: string): Promise<void> {
+  const metadata = await readVideoMetadata(filePath);
+
+  fields.duration = metadata.duration;
+  fields.videoCodec = metadata.codec;
+  fields.width = metadata.width;
+  fields.height = metadata.height;
+  fields.orientation = metadata.orientation;
+  if (metadata.createdAt) {
+    setCaptureInstant(fields, metadata.createdAt, "video", "high");
+  }
+  fields.contentIdentifier = metadata.contentIdentifier;
+}
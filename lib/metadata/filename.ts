@@ -0,0 +1,12 @@
+// 从文件名和相册目录名推断拍摄时间（IMG_20230101_120000、2023/春节 等）
+import { inferCaptureTime } from "../dates";
+import type { Photo } from "../types";
+import type { MetadataProvider } from "./provider";
+
+export const filenameProvider: MetadataProvider = {
+  name: "filename",
+
+  async read(fields: Photo): Promise<void> {
+    inferCaptureTime(fields);
+  },
+};
@@ -0,0 +1,51 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Photo } from "../types";
+import { createMetadataContext, createMetadataProviders, readMetadata } from "./index";
+
+const TAKEN_AT = "2023-07-15T06:42:10.000Z";
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), "photos-metadata-"));
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function readWithSynology(album: string, filename: string): Promise<Photo> {
+  const albumDir = join(dir, album);
+  const eaDir = join(albumDir, "@eaDir", filename);
+  await mkdir(eaDir, { recursive: true });
+  await Bun.write(join(eaDir, "SYNOPHOTO_METADATA.json"), JSON.stringify({ takenAt: TAKEN_AT }));
+
+  const filePath = join(albumDir, filename);
+  const photo: Photo = { id: filename, path: filePath, filename, root: "default", album, mediaType: "photo" };
+  await readMetadata(photo, createMetadataProviders(["filename", "synology"]), createMetadataContext(filePath, false));
+  return photo;
+}
+
+describe("capture time merging", () => {
+  test("Synology time replaces a date-only filename", async () => {
+    const photo = await readWithSynology("旅行", "IMG_20230715_001.jpg");
+    expect(photo.takenAt?.toISOString()).toBe(TAKEN_AT);
+    expect(photo.dateSource).toBe("synology");
+    expect(photo.fieldSources?.takenAt).toBe("synology");
+  });
+
+  test("Synology time replaces a date-only folder", async () => {
+    const photo = await readWithSynology("2023-07-15", "DSC00001.jpg");
+    expect(photo.takenAt?.toISOString()).toBe(TAKEN_AT);
+    expect(photo.dateSource).toBe("synology");
+  });
+
+  test("a filename with a time of day is kept", async () => {
+    const photo = await readWithSynology("旅行", "IMG_20230715_120000.jpg");
+    expect(photo.dateSource).toBe("filename");
+    expect(photo.takenAtLocal).toBe("2023-07-15T12:00:00");
+  });
+});
@@ -0,0 +1,136 @@
+// 按配置的顺序运行元数据提供者并合并结果：
+// - 先运行的提供者优先，后面的只补充前面没有的字段
+// - 拍摄时间作为一个整体，后面的提供者只有可信度更高时才替换（例如目录名只推断出年月时，使用 Synology 的时间）；
+//   可信度相同时有具体时间的优先（文件名只有日期时，使用 Synology / Takeout 的时间）
+// - 标签和人物取并集；同一张人脸（人脸框重叠）保留先提供的名字，未命名的人脸使用后面提供的名字
+// 每个字段由哪个提供者提供记录在 photo.fieldSources 中，用于排查
+import { hasTimeOfDay } from "../dates";
+import type { DateConfidence, FaceRegion, Photo } from "../types";
+import { exifProvider } from "./exif";
+import { filenameProvider } from "./filename";
+import { synologyProvider } from "./synology";
+import { takeoutProvider } from "./takeout";
+import { xmpProvider } from "./xmp";
+import { errorMessage, type MetadataContext, type MetadataProvider } from "./provider";
+
+export { createMetadataContext, type MetadataContext, type MetadataFailure, type MetadataProvider } from "./provider";
+
+const PROVIDERS: Record<string, MetadataProvider> = {
+  exif: exifProvider,
+  filename: filenameProvider,
+  takeout: takeoutProvider,
+  synology: synologyProvider,
+  xmp: xmpProvider,
+};
+
+export const DEFAULT_METADATA_PROVIDERS = ["exif", "filename", "takeout", "synology", "xmp"];
+
+// 每个提供者得到的基本信息，不参与合并
+const BASE_FIELDS = ["id", "path", "filename", "root", "album", "mediaType"] as const;
+
+const DATE_FIELDS = new Set<string>(["takenAt", "takenAtLocal", "takenAtOffset", "dateSource", "dateConfidence"]);
+
+const CONFIDENCE_RANK: Record<DateConfidence, number> = { low: 0, medium: 1, high: 2 };
+
+// 两个人脸框的交并比超过这个值时视为同一张脸
+const SAME_FACE_IOU = 0.5;
+
+export function createMetadataProviders(names: string[]): MetadataProvider[] {
+  return names.map(name => {
+    const provider = PROVIDERS[name];
+    if (!provider) {
+      throw new Error(`Unknown metadata provider "${name}", expected one of ${Object.keys(PROVIDERS).join(", ")}`);
+    }
+    return provider;
+  });
+}
+
+export async function readMetadata(photo: Photo, providers: MetadataProvider[], context: MetadataContext): Promise<void> {
+  const sources: Record<string, string> = {};
+
+  for (const provider of providers) {
+    const fields = baseFields(photo);
+    try {
+      await provider.read(fields, context);
+    } catch (error) {
+      // 单个提供者失败（文件损坏、附属文件格式不对）不影响其他提供者
+      context.failures.push({ provider: provider.name, message: errorMessage(error) });
+      continue;
+    }
+    mergeFields(photo, fields, provider.name, sources);
+  }
+
+  photo.fieldSources = Object.keys(sources).length > 0 ? sources : undefined;
+}
+
+function baseFields(photo: Photo): Photo {
+  const fields = {} as Photo;
+  for (const key of BASE_FIELDS) {
+    (fields as unknown as Record<string, unknown>)[key] = photo[key];
+  }
+  return fields;
+}
+
+function mergeFields(photo: Photo, fields: Photo, provider: string, sources: Record<string, string>): void {
+  const target = photo as unknown as Record<string, unknown>;
+  const addSource = (key: string) => {
+    sources[key] = sources[key] ? `${sources[key]},${provider}` : provider;
+  };
+
+  if (fields.takenAt && (!photo.takenAt || dateRank(fields) > dateRank(photo))) {
+    photo.takenAt = fields.takenAt;
+    photo.takenAtLocal = fields.takenAtLocal;
+    photo.takenAtOffset = fields.takenAtOffset;
+    photo.dateSource = fields.dateSource;
+    photo.dateConfidence = fields.dateConfidence;
+    sources.takenAt = provider;
+  }
+
+  // 人脸名字被先前的提供者覆盖时，这个名字也不加入人物
+  const replacedNames = new Set<string>();
+  if (fields.faces?.length) {
+    const faces = [...(photo.faces || [])];
+    for (const region of fields.faces) {
+      const same = faces.find(face => intersectionOverUnion(face, region) >= SAME_FACE_IOU);
+      if (!same) {
+        faces.push(region);
+      } else if (!same.name && region.name) {
+        faces[faces.indexOf(same)] = { ...same, name: region.name };
+      } else if (region.name && region.name !== same.name) {
+        replacedNames.add(region.name);
+      }
+    }
+    if (faces.length > (photo.faces?.length ?? 0) || faces.some((face, i) => face !== photo.faces?.[i])) {
+      addSource("faces");
+    }
+    photo.faces = faces;
+  }
+
+  for (const key of ["tags", "people"] as const) {
+    const added = (fields[key] || []).filter(value => !replacedNames.has(value) && !photo[key]?.includes(value));
+    if (added.length > 0) {
+      photo[key] = [...(photo[key] || []), ...new Set(added)];
+      addSource(key);
+    }
+  }
+
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined || target[key] !== undefined) continue;
+    if (DATE_FIELDS.has(key) || key === "faces" || key === "tags" || key === "people") continue;
+    target[key] = value;
+    sources[key] = provider;
+  }
+}
+
+function dateRank(photo: Photo): number {
+  if (!photo.dateConfidence) return -1;
+  return CONFIDENCE_RANK[photo.dateConfidence] * 2 + (hasTimeOfDay(photo) ? 1 : 0);
+}
+
+function intersectionOverUnion(a: FaceRegion, b: FaceRegion): number {
+  const w = Math.min(a.x + a.w, b.x + b.w) - Math.max(a.x, b.x);
+  const h = Math.min(a.y + a.h, b.y + b.h) - Math.max(a.y, b.y);
+  if (w <= 0 || h <= 0) return 0;
+  const intersection = w * h;
+  return intersection / (a.w * a.h + b.w * b.h - intersection);
+}
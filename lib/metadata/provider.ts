@@ -0,0 +1,52 @@
+// 元数据提供者：从文件本身或附属文件中读取照片信息
+import ExifReader from "exifreader";
+import { readExifTags, type ExifTags } from "../exif";
+import type { Photo } from "../types";
+
+export interface MetadataProvider {
+  name: string;
+
+  // 把读取到的字段写入 fields（只包含 id、路径、文件名、相册等基本信息的新对象）。
+  // 与其他提供者的合并由 readMetadata 负责，这里不需要关心优先级
+  read(fields: Photo, context: MetadataContext): Promise<void>;
+
+  // 与照片分开存放的元数据文件，只修改附属文件时据此重新解析对应的照片
+  isSidecar?(path: string): boolean;
+  sidecarPaths?(filePath: string): string[];
+}
+
+export interface MetadataContext {
+  filePath: string;
+  isVideo: boolean;
+  // EXIF 和内嵌的 XMP / IPTC 在同一次读取中得到，多个提供者共用
+  exifTags(): Promise<ExifTags | undefined>;
+  // 读取失败的提供者（文件损坏、附属文件格式不对），由扫描器记录为扫描错误
+  failures: MetadataFailure[];
+}
+
+export interface MetadataFailure {
+  provider: string;
+  message: string;
+}
+
+export function createMetadataContext(filePath: string, isVideo: boolean): MetadataContext {
+  let tags: Promise<ExifTags | undefined> | undefined;
+  const failures: MetadataFailure[] = [];
+  // 文件没有 EXIF 不算错误
+  const readTags = () => readExifTags(filePath).catch(error => {
+    if (!(error instanceof ExifReader.errors.MetadataMissingError)) {
+      failures.push({ provider: "exif", message: errorMessage(error) });
+    }
+    return undefined;
+  });
+  return {
+    filePath,
+    isVideo,
+    exifTags: () => tags ??= isVideo ? Promise.resolve(undefined) : readTags(),
+    failures,
+  };
+}
+
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
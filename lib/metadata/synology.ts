@@ -0,0 +1,113 @@
+// Synology Photos 写在 @eaDir 中的元数据和缩略图
+import { basename, dirname, join } from "node:path";
+import { setCaptureInstant } from "../dates";
+import type { Photo, SynologyMetadata, SynologyThumbnailSize } from "../types";
+import { errorMessage, type MetadataContext, type MetadataProvider } from "./provider";
+
+// 各尺寸缩略图的文件名，视频为 FILM
+const THUMBNAIL_FILES: Array<[SynologyThumbnailSize, string[]]> = [
+  ["xl", ["SYNOPHOTO_THUMB_XL.jpg", "SYNOPHOTO_FILM_XL.jpg"]],
+  ["m", ["SYNOPHOTO_THUMB_M.jpg", "SYNOPHOTO_FILM_M.jpg"]],
+  ["sm", ["SYNOPHOTO_THUMB_SM.jpg", "SYNOPHOTO_FILM_SM.jpg"]],
+];
+
+export const synologyProvider: MetadataProvider = {
+  name: "synology",
+
+  async read(fields: Photo, context: MetadataContext): Promise<void> {
+    const filePath = context.filePath;
+    const eaDirPath = join(dirname(filePath), "@eaDir", basename(filePath));
+
+    // Synology Photos 存储元数据的几种可能格式
+    const metadataFiles = [
+      join(eaDirPath, "SYNOPHOTO_METADATA.json"),
+      join(eaDirPath, "SYNO_PHOTO_METADATA.json"),
+    ];
+
+    // 元数据文件格式不对时记录错误，仍然查找缩略图
+    for (const metaPath of metadataFiles) {
+      try {
+        const file = Bun.file(metaPath);
+        if (await file.exists()) {
+          applySynologyMetadata(fields, await file.json(), eaDirPath);
+          break;
+        }
+      } catch (error) {
+        context.failures.push({ provider: "synology", message: `${basename(metaPath)}: ${errorMessage(error)}` });
+      }
+    }
+
+    // 查找各尺寸的缩略图（视频的封面帧也存放在这里）
+    const thumbnails = { ...fields.thumbnails };
+    for (const [size, names] of THUMBNAIL_FILES) {
+      if (thumbnails[size]) continue;
+      for (const name of names) {
+        const thumbPath = join(eaDirPath, name);
+        if (await Bun.file(thumbPath).exists()) {
+          thumbnails[size] = thumbPath;
+          break;
+        }
+      }
+    }
+
+    const largest = thumbnails.xl ?? thumbnails.m ?? thumbnails.sm;
+    if (largest) {
+      fields.thumbnails = thumbnails;
+      fields.thumbnail = largest;
+    }
+  },
+};
+
+function applySynologyMetadata(fields: Photo, metadata: SynologyMetadata, eaDirPath: string): void {
+  // 人脸识别数据（保留人脸框和未命名的人脸）
+  if (metadata.face && metadata.face.length > 0) {
+    fields.faces = metadata.face.map((f, i) => ({
+      id: f.id || String(i),
+      name: f.name || undefined,
+      x: f.x,
+      y: f.y,
+      w: f.w,
+      h: f.h,
+    }));
+    fields.people = metadata.face
+      .filter(f => f.name)
+      .map(f => f.name!);
+  }
+
+  // 地理编码
+  if (metadata.geocoding) {
+    const parts = [
+      metadata.geocoding.city,
+      metadata.geocoding.country,
+    ].filter(Boolean);
+    if (parts.length > 0) {
+      fields.locationName = parts.join(", ");
+    }
+    fields.country = metadata.geocoding.country || undefined;
+    fields.city = metadata.geocoding.city || undefined;
+    fields.address = metadata.geocoding.address || undefined;
+    // GPS 坐标
+    if (metadata.geocoding.latitude && metadata.geocoding.longitude) {
+      fields.latitude = metadata.geocoding.latitude;
+      fields.longitude = metadata.geocoding.longitude;
+    }
+  }
+
+  // 拍摄时间 (从元数据读取)，比只有年月的目录名可靠
+  if (metadata.takenAt) {
+    setCaptureInstant(fields, new Date(metadata.takenAt), "synology", "medium");
+  }
+
+  // 标签
+  if (metadata.tags) {
+    fields.tags = metadata.tags;
+  }
+
+  // 缩略图路径
+  if (metadata.thumbnail?.xl || metadata.thumbnail?.m) {
+    fields.thumbnails = {
+      xl: metadata.thumbnail.xl ? join(eaDirPath, metadata.thumbnail.xl) : undefined,
+      m: metadata.thumbnail.m ? join(eaDirPath, metadata.thumbnail.m) : undefined,
+    };
+  }
+}
@@ -0,0 +1,80 @@
+// Google 相册导出 (Takeout) 的 JSON 附属文件：拍摄时间、GPS、说明和人物
+import { basename, dirname, extname, join } from "node:path";
+import { setCaptureInstant } from "../dates";
+import type { Photo, TakeoutMetadata } from "../types";
+import type { MetadataContext, MetadataProvider } from "./provider";
+
+// Takeout 的文件名（包括 .json）最长 51 个字符，超出的部分被截掉
+const MAX_SIDECAR_NAME = 51;
+
+const SUPPLEMENTAL_SUFFIX = ".supplemental-metadata";
+
+export const takeoutProvider: MetadataProvider = {
+  name: "takeout",
+
+  async read(fields: Photo, context: MetadataContext): Promise<void> {
+    for (const sidecar of takeoutSidecarPaths(context.filePath)) {
+      const file = Bun.file(sidecar);
+      if (await file.exists()) {
+        applyTakeoutMetadata(fields, await file.json());
+        return;
+      }
+    }
+  },
+
+  isSidecar: (path: string) => extname(path).toLowerCase() === ".json",
+  sidecarPaths: takeoutSidecarPaths,
+};
+
+// 附属文件的几种命名：
+// - IMG_0001.jpg.json，2024 年以后为 IMG_0001.jpg.supplemental-metadata.json
+// - 同名文件 IMG_0001(1).jpg 对应 IMG_0001.jpg(1).json
+// - 编辑过的 IMG_0001-edited.jpg 共用原图的 IMG_0001.jpg.json
+export function takeoutSidecarPaths(filePath: string): string[] {
+  const dir = dirname(filePath);
+  const filename = basename(filePath);
+  const ext = extname(filename);
+
+  const names: Array<[string, string]> = [[filename, ""]];
+  const duplicate = filename.slice(0, filename.length - ext.length).match(/^(.*)\((\d+)\)$/);
+  if (duplicate) {
+    names.push([`${duplicate[1]}${ext}`, `(${duplicate[2]})`]);
+  }
+  const edited = filename.slice(0, filename.length - ext.length).match(/^(.*)-edited$/i);
+  if (edited) {
+    names.push([`${edited[1]}${ext}`, ""]);
+  }
+
+  const paths: string[] = [];
+  for (const [name, counter] of names) {
+    for (const suffix of ["", SUPPLEMENTAL_SUFFIX]) {
+      const stem = `${name}${suffix}`.slice(0, MAX_SIDECAR_NAME - ".json".length - counter.length);
+      paths.push(join(dir, `${stem}${counter}.json`));
+    }
+  }
+  return Array.from(new Set(paths));
+}
+
+function applyTakeoutMetadata(fields: Photo, metadata: TakeoutMetadata): void {
+  // 时间戳为 UTC 秒数；没有 EXIF 的照片可能是上传时间，可信度低于 EXIF
+  const timestamp = Number(metadata.photoTakenTime?.timestamp);
+  if (timestamp > 0) {
+    setCaptureInstant(fields, new Date(timestamp * 1000), "takeout", "medium");
+  }
+
+  // geoData 是在 Google 相册中修改过的位置，0,0 表示没有位置
+  const geo = [metadata.geoData, metadata.geoDataExif].find(g => g && (g.latitude || g.longitude));
+  if (geo) {
+    fields.latitude = geo.latitude;
+    fields.longitude = geo.longitude;
+  }
+
+  if (metadata.description?.trim()) {
+    fields.description = metadata.description.trim();
+  }
+
+  const people = (metadata.people || []).map(p => p.name?.trim()).filter(Boolean) as string[];
+  if (people.length > 0) {
+    fields.people = people;
+  }
+}
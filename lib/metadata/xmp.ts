@@ -0,0 +1,27 @@
+// XMP 附属文件和内嵌的 XMP / IPTC：评分、标题、说明、关键词和人脸区域
+import { isSidecarFile, mergeXmpMetadata, readEmbeddedMetadata, readXmpSidecar, sidecarPaths } from "../xmp";
+import type { Photo } from "../types";
+import type { MetadataContext, MetadataProvider } from "./provider";
+
+export const xmpProvider: MetadataProvider = {
+  name: "xmp",
+
+  async read(fields: Photo, context: MetadataContext): Promise<void> {
+    const tags = await context.exifTags();
+    const metadata = mergeXmpMetadata([
+      await readXmpSidecar(context.filePath),
+      tags ? readEmbeddedMetadata(tags) : undefined,
+    ]);
+
+    fields.rating = metadata.rating;
+    fields.title = metadata.title;
+    fields.description = metadata.description;
+    fields.tags = metadata.keywords;
+    fields.faces = metadata.faces;
+    const names = (metadata.faces || []).filter(face => face.name).map(face => face.name!);
+    fields.people = names.length > 0 ? names : undefined;
+  },
+
+  isSidecar: isSidecarFile,
+  sidecarPaths,
+};
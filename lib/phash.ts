@@ -0,0 +1,41 @@
+// 感知哈希 (dHash)：缩小成 9x8 的灰度图，逐行比较相邻像素的明暗。
+// 重新压缩、缩放、轻微调色后哈希基本不变，用于识别近似重复的照片
+import sharp from "sharp";
+
+const WIDTH = 9;
+const HEIGHT = 8;
+
+// 返回 16 位十六进制字符串（64 位），无法解码时返回 undefined
+export async function computePerceptualHash(source: string): Promise<string | undefined> {
+  try {
+    const { data, info } = await sharp(source, { failOn: "none" })
+      .rotate()
+      .grayscale()
+      .resize(WIDTH, HEIGHT, { fit: "fill" })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    let hash = 0n;
+    for (let y = 0; y < HEIGHT; y++) {
+      for (let x = 0; x < WIDTH - 1; x++) {
+        const left = data[(y * WIDTH + x) * info.channels]!;
+        const right = data[(y * WIDTH + x + 1) * info.channels]!;
+        hash = (hash << 1n) | (left > right ? 1n : 0n);
+      }
+    }
+    return hash.toString(16).padStart(16, "0");
+  } catch {
+    return undefined;
+  }
+}
+
+// 两个哈希不同的位数
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+}
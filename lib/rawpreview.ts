@@ -0,0 +1,183 @@
+// RAW 文件内嵌的 JPEG 预览。CR2、NEF、ARW、DNG 等基于 TIFF 的格式在 IFD 中记录预览的位置，
+// 选择其中最大的、浏览器能解码的一个（基线或渐进式 JPEG；CR2 和 DNG 的无损 JPEG 原始数据不算）。
+// 只读取 IFD 和预览本身，不加载整个文件
+import type { BunFile } from "bun";
+
+// IFD 链和 SubIFD 的最大遍历数量，防止损坏文件的循环引用
+const MAX_IFDS = 32;
+
+// 查找 SOF 段时读取的预览开头长度
+const JPEG_HEADER_SIZE = 64 * 1024;
+
+const TAG_COMPRESSION = 0x0103;
+const TAG_STRIP_OFFSETS = 0x0111;
+const TAG_ORIENTATION = 0x0112;
+const TAG_STRIP_BYTE_COUNTS = 0x0117;
+const TAG_SUB_IFDS = 0x014a;
+const TAG_JPEG_OFFSET = 0x0201;
+const TAG_JPEG_LENGTH = 0x0202;
+
+// TIFF 压缩方式：6 为旧式 JPEG，7 为 JPEG
+const JPEG_COMPRESSION = new Set([6, 7]);
+
+// 基线、扩展和渐进式 JPEG 的 SOF 标记
+const BROWSER_SOF_MARKERS = new Set([0xc0, 0xc1, 0xc2]);
+
+export interface EmbeddedPreview {
+  data: Uint8Array;
+  width: number;
+  height: number;
+  orientation: number; // RAW 文件的 EXIF 方向，预览本身通常不带方向
+}
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  valueOffset: number; // 值不超过 4 字节时为值本身所在的位置
+}
+
+interface Candidate {
+  offset: number;
+  length: number;
+}
+
+export async function extractEmbeddedPreview(filePath: string): Promise<EmbeddedPreview | null> {
+  const file = Bun.file(filePath);
+  const size = file.size;
+  if (size < 8) return null;
+
+  const header = new DataView(await file.slice(0, 8).arrayBuffer());
+  const order = header.getUint16(0);
+  if (order !== 0x4949 && order !== 0x4d4d) return null; // II / MM
+  const reader = new TiffReader(file, order === 0x4949);
+
+  const candidates: Candidate[] = [];
+  let orientation = 1;
+  const queue = [header.getUint32(4, reader.littleEndian)];
+  const visited = new Set<number>();
+
+  while (queue.length > 0 && visited.size < MAX_IFDS) {
+    const offset = queue.shift()!;
+    if (offset <= 0 || offset >= size || visited.has(offset)) continue;
+    visited.add(offset);
+
+    const { entries, next } = await reader.readIfd(offset);
+    queue.push(next);
+
+    if (visited.size === 1 && entries.has(TAG_ORIENTATION)) {
+      orientation = (await reader.values(entries.get(TAG_ORIENTATION)!))[0] ?? 1;
+    }
+    if (entries.has(TAG_SUB_IFDS)) {
+      queue.push(...await reader.values(entries.get(TAG_SUB_IFDS)!));
+    }
+
+    // JPEGInterchangeFormat，或者只有一个条带的 JPEG 压缩图像
+    if (entries.has(TAG_JPEG_OFFSET) && entries.has(TAG_JPEG_LENGTH)) {
+      const [start] = await reader.values(entries.get(TAG_JPEG_OFFSET)!);
+      const [length] = await reader.values(entries.get(TAG_JPEG_LENGTH)!);
+      if (start && length) candidates.push({ offset: start, length });
+    } else if (entries.has(TAG_COMPRESSION) && entries.has(TAG_STRIP_OFFSETS) && entries.has(TAG_STRIP_BYTE_COUNTS)) {
+      const [compression] = await reader.values(entries.get(TAG_COMPRESSION)!);
+      const strips = await reader.values(entries.get(TAG_STRIP_OFFSETS)!);
+      const [length] = await reader.values(entries.get(TAG_STRIP_BYTE_COUNTS)!);
+      if (JPEG_COMPRESSION.has(compression!) && strips.length === 1 && length) {
+        candidates.push({ offset: strips[0]!, length });
+      }
+    }
+  }
+
+  let best: (Candidate & { width: number; height: number }) | undefined;
+  for (const candidate of candidates) {
+    if (candidate.offset + candidate.length > size) continue;
+    const head = new Uint8Array(
+      await file.slice(candidate.offset, candidate.offset + Math.min(candidate.length, JPEG_HEADER_SIZE)).arrayBuffer(),
+    );
+    const dimensions = readJpegDimensions(head);
+    if (dimensions && (!best || dimensions.width * dimensions.height > best.width * best.height)) {
+      best = { ...candidate, ...dimensions };
+    }
+  }
+  if (!best) return null;
+
+  const data = new Uint8Array(await file.slice(best.offset, best.offset + best.length).arrayBuffer());
+  return { data, width: best.width, height: best.height, orientation };
+}
+
+class TiffReader {
+  private file: BunFile;
+  readonly littleEndian: boolean;
+
+  constructor(file: BunFile, littleEndian: boolean) {
+    this.file = file;
+    this.littleEndian = littleEndian;
+  }
+
+  async readIfd(offset: number): Promise<{ entries: Map<number, IfdEntry>; next: number }> {
+    const countView = new DataView(await this.file.slice(offset, offset + 2).arrayBuffer());
+    if (countView.byteLength < 2) return { entries: new Map(), next: 0 };
+    const count = countView.getUint16(0, this.littleEndian);
+
+    const length = count * 12 + 4;
+    const view = new DataView(await this.file.slice(offset + 2, offset + 2 + length).arrayBuffer());
+    const entries = new Map<number, IfdEntry>();
+    for (let i = 0; i < count && (i + 1) * 12 <= view.byteLength; i++) {
+      const base = i * 12;
+      const type = view.getUint16(base + 2, this.littleEndian);
+      const entryCount = view.getUint32(base + 4, this.littleEndian);
+      const inline = typeSize(type) * entryCount <= 4;
+      entries.set(view.getUint16(base, this.littleEndian), {
+        type,
+        count: entryCount,
+        valueOffset: inline ? offset + 2 + base + 8 : view.getUint32(base + 8, this.littleEndian),
+      });
+    }
+    const next = view.byteLength >= length ? view.getUint32(count * 12, this.littleEndian) : 0;
+    return { entries, next };
+  }
+
+  // SHORT / LONG / IFD 类型的值（最多读取 MAX_IFDS 个）
+  async values(entry: IfdEntry): Promise<number[]> {
+    const size = typeSize(entry.type);
+    if (size !== 2 && size !== 4) return [];
+    const count = Math.min(entry.count, MAX_IFDS);
+    const view = new DataView(await this.file.slice(entry.valueOffset, entry.valueOffset + size * count).arrayBuffer());
+    const values: number[] = [];
+    for (let i = 0; (i + 1) * size <= view.byteLength && i < count; i++) {
+      values.push(size === 2 ? view.getUint16(i * 2, this.littleEndian) : view.getUint32(i * 4, this.littleEndian));
+    }
+    return values;
+  }
+}
+
+// BYTE / ASCII / UNDEFINED 为 1 字节，SHORT 为 2 字节，LONG / IFD 为 4 字节，其余按 8 字节处理
+function typeSize(type: number): number {
+  if (type === 3 || type === 8) return 2;
+  if (type === 4 || type === 9 || type === 13) return 4;
+  if (type === 1 || type === 2 || type === 6 || type === 7) return 1;
+  return 8;
+}
+
+// 遍历 JPEG 段找到 SOF，返回浏览器能解码的 JPEG 的尺寸
+function readJpegDimensions(data: Uint8Array): { width: number; height: number } | null {
+  if (data[0] !== 0xff || data[1] !== 0xd8) return null;
+
+  let offset = 2;
+  while (offset + 9 <= data.length) {
+    if (data[offset] !== 0xff) return null;
+    const marker = data[offset + 1]!;
+    if (marker === 0xff) {
+      offset++; // 填充字节
+      continue;
+    }
+    const length = (data[offset + 2]! << 8) | data[offset + 3]!;
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      if (!BROWSER_SOF_MARKERS.has(marker)) return null;
+      const height = (data[offset + 5]! << 8) | data[offset + 6]!;
+      const width = (data[offset + 7]! << 8) | data[offset + 8]!;
+      return width > 0 && height > 0 ? { width, height } : null;
+    }
+    if (marker === 0xda) return null; // 图像数据开始前没有 SOF
+    offset += 2 + length;
+  }
+  return null;
+}
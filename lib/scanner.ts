@@ -1,39 +1,135 @@
 // Synology Photos 数据扫描和解析器
+import { randomUUID } from "node:crypto";
 import { readdir, stat } from "node:fs/promises";
-import { join, extname, basename, dirname } from "node:path";
-import ExifReader from "exifreader";
-import type { Photo, Album, Person, Location, SynologyMetadata, CachedPhoto, ScanCache } from "./types";
-
-const CACHE_VERSION = 1;
-const CACHE_FILENAME = ".photos-cache.json";
-const CACHE_SAVE_INTERVAL = 100; // 每扫描 100 张照片保存一次缓存
-
-const PHOTO_EXTENSIONS = new Set([".jpg", ".jpeg", ".png", ".heic", ".heif", ".webp", ".gif", ".bmp", ".tiff"]);
+import { copyFileSync, existsSync, mkdirSync, type Stats } from "node:fs";
+import { join, extname, basename, dirname, relative, resolve, sep } from "node:path";
+import { forEachConcurrent } from "./concurrency";
+import { resolveTimezone, setCaptureInstant } from "./dates";
+import { computeContentHash, computeFullHash } from "./hash";
+import { computePerceptualHash } from "./phash";
+import { findDuplicateGroups } from "./duplicates";
+import { buildStacks, isRawFile, RAW_EXTENSIONS } from "./stacks";
+import { createMetadataContext, createMetadataProviders, DEFAULT_METADATA_PROVIDERS, readMetadata, type MetadataProvider } from "./metadata";
+import { applyDisplayDimensions } from "./exif";
+import { geocodeKey, ReverseGeocoder } from "./geocoder";
+import { buildLocationTree, cityKey, clusterPlaces, matchPlaceIds, type PlacePoint, type PlaceRecord } from "./locations";
+import { LibraryWatcher } from "./watcher";
+import { pickCoverPhoto, sortAlbums } from "./albums";
+import { albumId, parentAlbumName, PhotoDatabase, type AlbumUpdate, type LibraryRoot, type PersonUpdate, type ScanErrorFilter } from "./database";
+import type { Photo, Album, AlbumSort, Person, Location, LocationFilter, Place, UnnamedFace, DuplicateGroup, ScanCache, ScanError } from "./types";
+
+const INDEX_FILENAME = "index.db";
+const DEFAULT_SCAN_CONCURRENCY = 4;
+
+// 扫描进行中 status 事件的最小间隔
+const STATUS_EVENT_INTERVAL_MS = 500;
+
+// 旧版本写在照片目录里的索引文件（只读取，用于迁移）
+const LEGACY_INDEX_FILENAME = ".photos-index.db";
+const LEGACY_CACHE_FILENAME = ".photos-cache.json";
+const LEGACY_CACHE_VERSION = 1;
+
+const PHOTO_EXTENSIONS = new Set([".jpg", ".jpeg", ".png", ".heic", ".heif", ".webp", ".gif", ".bmp", ".tif", ".tiff"]);
 const VIDEO_EXTENSIONS = new Set([".mp4", ".mov", ".avi", ".mkv", ".webm"]);
 
 export interface ScanStatus {
+  jobId?: string; // 扫描任务 ID，每次全量扫描生成一个
   scanning: boolean;
   total: number;
   cached: number;
   scanned: number;
+  currentRoot?: string; // 正在扫描的照片库
   currentDir?: string;
   startTime?: Date;
   endTime?: Date;
+  filesPerSecond?: number; // 处理速度（包括命中缓存的文件）
+  etaSeconds?: number;     // 预计剩余时间，目录遍历完成后才有
+  errors: number;          // 本次扫描记录的错误数
+  errorStages?: Record<string, number>; // 按阶段统计的错误数
+  changes?: ScanChangeSummary; // 上次扫描相对于缓存的变化
+  failure?: string;            // 扫描中途失败的原因，已处理的文件保留在索引中
+}
+
+// 扫描进度事件，通过 onScanEvent 订阅
+export type ScanEvent =
+  | { type: "status"; status: ScanStatus }
+  | { type: "directory"; jobId: string; root: string; dir: string; files: number } // 目录中的文件全部处理完
+  | { type: "error"; jobId: string; error: ScanError }
+  | { type: "complete"; status: ScanStatus };
+
+export interface ScanChangeSummary {
+  added: number;
+  updated: number;
+  removed: number;
+  moved: number;
+}
+
+// 一批增量变更的结果
+export interface LibraryChange {
+  added: string[];   // photo ids
+  updated: string[];
+  removed: string[];
+  moved: string[];   // 移动或重命名，ID 保持不变
+  storiesAffected: boolean; // 拍摄时间、人物、地点等影响故事的字段是否有变化
+}
+
+// 照片库配置：名称在索引中标识这个库，挂载路径变化时据此保留索引
+export interface LibraryConfig {
+  name: string;
+  path: string;
+}
+
+export interface LibraryInfo extends LibraryRoot {
+  online: boolean; // 根目录是否可访问（例如外接硬盘未挂载）
+  photoCount: number;
+}
+
+export interface ScannerOptions {
+  dataDir: string;      // 索引等生成数据的存放目录（不写入照片目录）
+  concurrency?: number; // 同时解析的文件数
+  metadataProviders?: string[]; // 元数据提供者及其优先级顺序，默认 DEFAULT_METADATA_PROVIDERS
+}
+
+export interface WatchOptions {
+  debounceMs?: number;
+  sweepIntervalMs?: number; // 定期 mtime 巡检间隔，0 表示禁用
+}
+
+// 相册由所属照片库和库内的目录共同确定
+interface AlbumRef {
+  root: string;
+  name: string; // 空字符串表示库的根目录（不是相册，但需要更新其中的堆叠）
+}
+
+// 目录遍历得到的待处理文件
+interface ScanTask {
+  root: LibraryRoot;
+  path: string;
+  album?: string;
+  sidecars?: string[]; // 目录中存在的附属文件
+}
+
+// 目录的处理进度（按文件所在目录统计，不包括子目录）
+interface DirectoryProgress {
+  root: string;
+  dir: string;
+  files: number;
+  processed: number;
 }
 
 export class PhotoScanner {
-  private photosRoot: string;
-  private photos: Map<string, Photo> = new Map();
-  private albums: Map<string, Album> = new Map();
-  private people: Map<string, Person> = new Map();
-  private locations: Map<string, Location> = new Map();
+  private roots: LibraryRoot[] = [];
+  private db: PhotoDatabase;
+  private concurrency: number;
+  private metadataProviders: MetadataProvider[];
+  private geocoder = new ReverseGeocoder();
   private indexed: boolean = false;
   
-  // 缓存相关
-  private cachePath: string;
-  private cachedMtimes: Map<string, number> = new Map(); // path -> mtime
+  // 扫描统计
   private scanStats = { total: 0, cached: 0, scanned: 0 };
-  private lastCacheSave = 0; // 上次保存缓存时的扫描数
+  private seenPaths: Set<string> = new Set(); // 本次扫描遇到的文件
+  private addedPhotos: Photo[] = []; // 本次扫描新增的照片
+  private updatedCount = 0;
   
   // 扫描状态
   private scanStatus: ScanStatus = {
@@ -41,140 +137,739 @@ export class PhotoScanner {
     total: 0,
     cached: 0,
     scanned: 0,
+    errors: 0,
   };
 
-  constructor(photosRoot: string) {
-    this.photosRoot = photosRoot;
-    this.cachePath = join(photosRoot, CACHE_FILENAME);
+  // 文件监听
+  private watchers: Map<string, LibraryWatcher> = new Map();
+  private watchOptions: WatchOptions | null = null;
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+  private pendingChanges: Set<string> = new Set(); // 全量扫描期间收到的变更
+  private changeQueue: Promise<void> = Promise.resolve();
+  private changeListeners: Array<(change: LibraryChange) => void> = [];
+
+  // 扫描进度订阅
+  private scanListeners: Set<(event: ScanEvent) => void> = new Set();
+  private lastStatusEvent = 0;
+
+  constructor(libraries: LibraryConfig[], options: ScannerOptions) {
+    if (libraries.length === 0) {
+      throw new Error("At least one photo library is required");
+    }
+    const configs = libraries.map(library => ({ name: library.name, path: resolve(library.path) }));
+    checkLibraries(configs);
+    this.concurrency = Math.max(1, options.concurrency || DEFAULT_SCAN_CONCURRENCY);
+    this.metadataProviders = createMetadataProviders(options.metadataProviders ?? DEFAULT_METADATA_PROVIDERS);
+
+    const dataDir = resolve(options.dataDir);
+    mkdirSync(dataDir, { recursive: true });
+    const dbPath = join(dataDir, INDEX_FILENAME);
+
+    // 旧版本把索引写在照片目录里，首次启动时复制到数据目录
+    const legacyIndexPath = configs
+      .map(config => join(config.path, LEGACY_INDEX_FILENAME))
+      .find(path => existsSync(path));
+    if (!existsSync(dbPath) && legacyIndexPath) {
+      console.log(`Copying legacy index from ${legacyIndexPath}`);
+      copyFileSync(legacyIndexPath, dbPath);
+      if (existsSync(`${legacyIndexPath}-wal`)) {
+        copyFileSync(`${legacyIndexPath}-wal`, `${dbPath}-wal`);
+      }
+    }
+
+    this.db = new PhotoDatabase(dbPath);
+    for (const config of configs) {
+      this.roots.push(this.attachRoot(config, configs.length === 1));
+    }
+  }
+
+  // 登记照片库根目录；挂载路径变化时改写索引中的路径而不是丢弃索引
+  private attachRoot(config: LibraryConfig, claimAll: boolean): LibraryRoot {
+    const existing = this.db.getRoot(config.name);
+
+    if (!existing) {
+      const root: LibraryRoot = { ...config, enabled: true };
+      this.db.saveRoot(root);
+      // 旧版索引只有一个库；配置了多个库时按路径分配
+      const claimed = this.db.claimUnassignedPhotos(config.name, claimAll ? undefined : config.path);
+      if (claimed > 0) {
+        console.log(`Assigned ${claimed} indexed photos to library "${config.name}"`);
+      }
+      return root;
+    }
+
+    if (existing.path !== config.path) {
+      console.log(`Library "${config.name}" moved from ${existing.path} to ${config.path}, updating index`);
+      this.db.relocateRoot(config.name, existing.path, config.path);
+    }
+    return { ...existing, path: config.path };
+  }
+
+  // 在后台开始全量扫描，立即返回任务 ID 和扫描完成的 Promise；已经在扫描时返回 null
+  startScan(): { jobId: string; done: Promise<void> } | null {
+    if (this.scanStatus.scanning) return null;
+    const done = this.scan();
+    return { jobId: this.scanStatus.jobId!, done };
   }
 
   async scan(): Promise<void> {
-    console.log(`Scanning photos from: ${this.photosRoot}`);
-    
     // 更新扫描状态
     this.scanStatus = {
+      jobId: randomUUID(),
       scanning: true,
       total: 0,
       cached: 0,
       scanned: 0,
+      errors: 0,
       startTime: new Date(),
     };
     
-    // 加载缓存
-    await this.loadCache();
-    
     this.scanStats = { total: 0, cached: 0, scanned: 0 };
-    this.lastCacheSave = 0;
-    
-    await this.scanDirectory(this.photosRoot);
+    this.seenPaths = new Set();
+    this.addedPhotos = [];
+    this.updatedCount = 0;
+    this.emitStatus(true);
+
+    // 无论成功与否都结束扫描状态并发送 complete 事件，否则之后的扫描都会被当作正在进行
+    let changes: ScanChangeSummary | undefined;
+    let failure: string | undefined;
+    try {
+      // 等待正在处理的变更，避免和扫描同时修改索引（之后的变更会积压到扫描结束）
+      await this.changeQueue;
+      changes = await this.runScan();
+    } catch (error) {
+      failure = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      this.seenPaths = new Set();
+      this.addedPhotos = [];
+
+      // 更新扫描状态
+      this.scanStatus = {
+        jobId: this.scanStatus.jobId,
+        scanning: false,
+        total: this.scanStats.total,
+        cached: this.scanStats.cached,
+        scanned: this.scanStats.scanned,
+        errors: this.scanStatus.errors,
+        errorStages: this.scanStatus.errorStages,
+        startTime: this.scanStatus.startTime,
+        endTime: new Date(),
+        filesPerSecond: this.scanStatus.filesPerSecond,
+        changes,
+        failure,
+      };
+      this.emitScanEvent({ type: "complete", status: this.getScanStatus() });
+    }
+
+    console.log(`Found ${this.getPhotoCount()} photos in ${this.getAllAlbums().length} albums`);
+    console.log(`Found ${this.getAllPeople().length} people and ${this.getLocationCount()} cities`);
+    console.log(`Scan stats: ${this.scanStats.cached} cached, ${this.scanStats.scanned} scanned, ${this.scanStats.total} total`);
+    console.log(`Changes: ${changes.added} added, ${changes.updated} updated, ${changes.removed} removed, ${changes.moved} moved`);
+    if (this.scanStatus.errors > 0) {
+      console.log(`Errors: ${this.scanStatus.errors} (see /api/scan/errors)`);
+    }
+
+    // 处理扫描期间积压的文件变更
+    if (this.pendingChanges.size > 0) {
+      const paths = Array.from(this.pendingChanges);
+      this.pendingChanges.clear();
+      await this.applyChanges(paths);
+    }
+  }
+
+  // 全量扫描的各个步骤，返回相对于索引的变化
+  private async runScan(): Promise<ScanChangeSummary> {
+    // 先遍历所有目录得到文件总数，再并发解析，这样可以估算剩余时间
+    const tasks: ScanTask[] = [];
+    const albums: AlbumRef[] = [];
+    const scannedRoots: LibraryRoot[] = [];
+    for (const root of this.roots) {
+      if (!root.enabled) continue;
+
+      // 根目录不可访问时跳过，不能把整个库当作已删除
+      if (!existsSync(root.path)) {
+        console.log(`Library "${root.name}" is offline (${root.path}), keeping its index`);
+        continue;
+      }
+
+      console.log(`Scanning photos from: ${root.path} (${root.name})`);
+
+      // 首次使用数据库时导入旧版 JSON 缓存，避免全量重新扫描
+      if (!this.indexed && this.db.getPhotoCount([root.name]) === 0) {
+        await this.importLegacyCache(root);
+      }
+
+      // 目录错误在遍历时重新记录
+      this.db.deleteMatchingScanErrors({ roots: [root.name], stage: "readdir" });
+      this.scanStatus.currentRoot = root.name;
+      await this.scanDirectory(root, root.path, tasks, albums);
+      scannedRoots.push(root);
+    }
+    this.emitStatus(true);
+
+    const directories = new Map<string, DirectoryProgress>();
+    for (const task of tasks) {
+      const dir = dirname(task.path);
+      const progress = directories.get(dir);
+      if (progress) {
+        progress.files++;
+      } else {
+        directories.set(dir, { root: task.root.name, dir: dir.replace(task.root.path, "") || "/", files: 1, processed: 0 });
+      }
+    }
+
+    const processingStart = Date.now();
+    await forEachConcurrent(tasks, this.concurrency, async (task) => {
+      await this.processPhoto(task);
+      this.updateProgress(processingStart);
+
+      const progress = directories.get(dirname(task.path))!;
+      if (++progress.processed === progress.files) {
+        const { root, dir, files } = progress;
+        this.emitScanEvent({ type: "directory", jobId: this.scanStatus.jobId!, root, dir, files });
+      }
+      this.emitStatus();
+    });
+    this.updateAlbums(albums);
+
+    // 清理已不存在的文件，并识别其中被移动或重命名的（包括跨库移动）
+    const vanished = scannedRoots
+      .flatMap(root => this.db.getIndexedFiles(root.name))
+      .filter(f => !this.seenPaths.has(f.path))
+      .map(f => this.db.getPhoto(f.id)!);
+    const touchedAlbums = new Map<string, AlbumRef>();
+    for (const photo of vanished) {
+      this.removePhoto(photo);
+      this.touchAlbum(touchedAlbums, photo);
+    }
+    const moves = this.reconcileMoves(vanished, this.addedPhotos);
+    for (const { to } of moves) {
+      this.touchAlbum(touchedAlbums, to);
+    }
+    this.updateAlbums(touchedAlbums.values());
+    await this.confirmHashTwins(scannedRoots);
+    await this.updatePlaces();
     this.indexed = true;
     
-    // 最终保存缓存
-    await this.saveCache();
-    
-    // 更新扫描状态
-    this.scanStatus = {
-      scanning: false,
-      total: this.scanStats.total,
-      cached: this.scanStats.cached,
-      scanned: this.scanStats.scanned,
-      startTime: this.scanStatus.startTime,
-      endTime: new Date(),
+    return {
+      added: this.addedPhotos.length - moves.length,
+      updated: this.updatedCount,
+      removed: vanished.length - moves.length,
+      moved: moves.length,
     };
-    
-    console.log(`Found ${this.photos.size} photos in ${this.albums.size} albums`);
-    console.log(`Found ${this.people.size} people and ${this.locations.size} locations`);
-    console.log(`Scan stats: ${this.scanStats.cached} cached, ${this.scanStats.scanned} scanned, ${this.scanStats.total} total`);
   }
   
+  private updateProgress(processingStart: number): void {
+    const processed = this.scanStats.cached + this.scanStats.scanned;
+    const elapsed = (Date.now() - processingStart) / 1000;
+    if (elapsed <= 0) return;
+
+    const rate = processed / elapsed;
+    this.scanStatus.filesPerSecond = Math.round(rate * 10) / 10;
+    this.scanStatus.etaSeconds = rate > 0 ? Math.round((this.scanStats.total - processed) / rate) : undefined;
+  }
+
   // 获取扫描状态
   getScanStatus(): ScanStatus {
     return { ...this.scanStatus };
   }
 
-  // 加载缓存
-  private async loadCache(): Promise<void> {
+  // 订阅扫描进度，返回取消订阅的函数
+  onScanEvent(listener: (event: ScanEvent) => void): () => void {
+    this.scanListeners.add(listener);
+    return () => this.scanListeners.delete(listener);
+  }
+
+  private emitScanEvent(event: ScanEvent): void {
+    for (const listener of this.scanListeners) {
+      listener(event);
+    }
+  }
+
+  // 发布当前状态；处理文件时按 STATUS_EVENT_INTERVAL_MS 限制频率
+  private emitStatus(force = false): void {
+    const now = Date.now();
+    if (!force && now - this.lastStatusEvent < STATUS_EVENT_INTERVAL_MS) return;
+    this.lastStatusEvent = now;
+    this.emitScanEvent({ type: "status", status: this.getScanStatus() });
+  }
+
+  // 记录文件或目录的错误；全量扫描中同时计入扫描状态并发布 error 事件
+  private recordError(root: LibraryRoot, path: string, stage: string, error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    const record: ScanError = { root: root.name, path, stage, message, time: new Date() };
+    this.db.saveScanError(record);
+
+    if (!this.scanStatus.scanning) return;
+    this.scanStatus.errors++;
+    this.scanStatus.errorStages = { ...this.scanStatus.errorStages, [stage]: (this.scanStatus.errorStages?.[stage] ?? 0) + 1 };
+    this.emitScanEvent({ type: "error", jobId: this.scanStatus.jobId!, error: this.toScanError(record) });
+  }
+
+  // 对外显示库内的路径
+  private toScanError(error: ScanError): ScanError {
+    const root = this.roots.find(r => r.name === error.root);
+    return root ? { ...error, path: error.path.replace(root.path, "") || "/" } : error;
+  }
+
+  // 记录的扫描错误，最新的在前
+  getScanErrors(filter: Omit<ScanErrorFilter, "roots">, limit: number, offset: number, roots?: string[]): {
+    total: number;
+    stages: Record<string, number>;
+    errors: ScanError[];
+  } {
+    const result = this.db.getScanErrors({ ...filter, roots: this.scope(roots) }, limit, offset);
+    return { ...result, errors: result.errors.map(error => this.toScanError(error)) };
+  }
+
+  // 重新解析出错的文件（目录重新遍历），返回路径数。错误先清除，再次失败时重新记录
+  retryScanErrors(filter: Omit<ScanErrorFilter, "roots">, roots?: string[]): { paths: number; done: Promise<void> } {
+    const scoped = { ...filter, roots: this.scope(roots) };
+    const paths = this.db.getScanErrorPaths(scoped);
+    this.db.deleteMatchingScanErrors(scoped);
+    this.db.markStale(paths);
+    return { paths: paths.length, done: paths.length > 0 ? this.applyChanges(paths) : Promise.resolve() };
+  }
+
+  // 开始监听照片库变化
+  watch(options: WatchOptions = {}): void {
+    this.watchOptions = options;
+    for (const root of this.roots) {
+      if (root.enabled) this.startWatcher(root);
+    }
+
+    // 网络挂载上 inotify 事件不一定能送达，定期对比 mtime 兜底
+    if (!this.sweepTimer && options.sweepIntervalMs) {
+      this.sweepTimer = setInterval(() => {
+        this.sweep().catch(error => console.error("Periodic sweep failed:", error));
+      }, options.sweepIntervalMs);
+    }
+  }
+
+  unwatch(): void {
+    for (const name of Array.from(this.watchers.keys())) {
+      this.stopWatcher(name);
+    }
+    this.watchOptions = null;
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  private startWatcher(root: LibraryRoot): void {
+    if (!this.watchOptions || this.watchers.has(root.name)) return;
+
+    const watcher = new LibraryWatcher(root.path, (paths) => {
+      this.applyChanges(paths).catch(error => console.error("Failed to apply changes:", error));
+    }, { debounceMs: this.watchOptions.debounceMs });
+    watcher.start();
+    this.watchers.set(root.name, watcher);
+  }
+
+  private stopWatcher(rootName: string): void {
+    this.watchers.get(rootName)?.stop();
+    this.watchers.delete(rootName);
+  }
+
+  // 照片库列表
+  getLibraries(): LibraryInfo[] {
+    return this.roots.map(root => ({
+      ...root,
+      online: existsSync(root.path),
+      photoCount: this.db.getPhotoCount([root.name]),
+    }));
+  }
+
+  // 启用或停用照片库。停用的库保留索引，只是不再扫描、监听和出现在查询结果中
+  setLibraryEnabled(name: string, enabled: boolean): boolean {
+    const root = this.roots.find(r => r.name === name);
+    if (!root) return false;
+
+    root.enabled = enabled;
+    this.db.setRootEnabled(name, enabled);
+    if (enabled) {
+      this.startWatcher(root);
+    } else {
+      this.stopWatcher(name);
+    }
+    return true;
+  }
+
+  // 订阅增量变更
+  onChange(listener: (change: LibraryChange) => void): void {
+    this.changeListeners.push(listener);
+  }
+
+  // 应用一批文件变更（新增、修改、删除的文件或目录）
+  applyChanges(paths: string[]): Promise<void> {
+    if (this.scanStatus.scanning) {
+      for (const path of paths) {
+        this.pendingChanges.add(path);
+      }
+      return Promise.resolve();
+    }
+
+    // 串行处理，避免两批变更交错修改索引；一批失败只由调用者处理，不影响之后的变更
+    const run = () => this.processChanges(paths);
+    const batch = this.changeQueue.then(run, run);
+    this.changeQueue = batch.catch(() => {});
+    return batch;
+  }
+
+  // 定期巡检：对比磁盘上的 mtime 和已索引的 mtime
+  async sweep(): Promise<void> {
+    if (this.scanStatus.scanning) return;
+
+    const changed: string[] = [];
+    for (const root of this.roots) {
+      if (!root.enabled || !existsSync(root.path)) continue;
+
+      const files = await this.collectMediaFiles(root.path);
+      const indexedMtimes = new Map(this.db.getIndexedFiles(root.name).map(f => [f.path, f.mtime]));
+
+      for (const [path, mtime] of files) {
+        if (indexedMtimes.get(path) !== mtime) {
+          changed.push(path);
+        }
+      }
+      for (const path of indexedMtimes.keys()) {
+        if (!files.has(path)) {
+          changed.push(path);
+        }
+      }
+    }
+
+    if (changed.length > 0) {
+      console.log(`Sweep found ${changed.length} changed files`);
+      await this.applyChanges(changed);
+    }
+  }
+
+  private async processChanges(paths: string[]): Promise<void> {
+    const change: LibraryChange = { added: [], updated: [], removed: [], moved: [], storiesAffected: false };
+    const touchedAlbums = new Map<string, AlbumRef>();
+    const touchedCities = new Set<string>();
+    const removed: Photo[] = [];
+    const added: Photo[] = [];
+
+    for (const path of paths) {
+      // 附属文件（XMP、Takeout JSON）变化时重新解析对应的照片（照片本身的 mtime 没有变化）
+      if (this.isSidecarFile(path)) {
+        await this.applySidecarChange(path, change, touchedAlbums, touchedCities);
+        continue;
+      }
+
+      let fileStat: Stats | undefined;
+      try {
+        fileStat = await stat(path);
+      } catch {}
+
+      if (!fileStat) {
+        // 文件或目录已删除，移除该路径下的所有照片
+        for (const photo of this.db.getPhotosUnder(path)) {
+          this.removePhoto(photo);
+          removed.push(photo);
+          this.touchAlbum(touchedAlbums, photo);
+          touchedCities.add(cityKey(photo));
+        }
+      } else if (fileStat.isDirectory()) {
+        // 新建或移入的目录
+        const files = await this.collectMediaFiles(path);
+        await forEachConcurrent(Array.from(files.keys()), this.concurrency, async (filePath) => {
+          await this.applyFileChange(filePath, change, touchedAlbums, touchedCities, added);
+        });
+      } else if (fileStat.isFile() && this.isMediaFile(path)) {
+        await this.applyFileChange(path, change, touchedAlbums, touchedCities, added, fileStat);
+      }
+    }
+
+    // 同一批中删除又出现的相同内容视为移动
+    const moves = this.reconcileMoves(removed, added);
+    const movedFrom = new Set(moves.map(m => m.from.id));
+    change.moved = moves.map(m => m.to.id);
+    change.removed = removed.filter(p => !movedFrom.has(p.id)).map(p => p.id);
+    change.added = added.filter(p => this.db.hasPhoto(p.id)).map(p => p.id);
+    for (const { from, to } of moves) {
+      this.touchAlbum(touchedAlbums, to);
+      if (this.affectsStories(from, to)) change.storiesAffected = true;
+    }
+    if (change.added.length > 0 || change.removed.length > 0) {
+      change.storiesAffected = true;
+    }
+
+    this.updateAlbums(touchedAlbums.values());
+
+    const total = change.added.length + change.updated.length + change.removed.length + change.moved.length;
+    if (total === 0) return;
+    await this.confirmHashTwins(this.roots.filter(root => root.enabled && existsSync(root.path)));
+    await this.updatePlaces(touchedCities);
+
+    console.log(`Applied changes: ${change.added.length} added, ${change.updated.length} updated, ${change.removed.length} removed, ${change.moved.length} moved`);
+
+    for (const listener of this.changeListeners) {
+      listener(change);
+    }
+  }
+
+  private async applyFileChange(
+    filePath: string,
+    change: LibraryChange,
+    touchedAlbums: Map<string, AlbumRef>,
+    touchedCities: Set<string>,
+    added: Photo[],
+    fileStat?: Stats,
+  ): Promise<void> {
+    const root = this.rootFor(filePath);
+    if (!root) return;
+
     try {
-      const cacheFile = Bun.file(this.cachePath);
-      if (!await cacheFile.exists()) {
-        console.log("No cache file found, will scan all photos");
-        return;
+      fileStat ??= await stat(filePath);
+    } catch {
+      return;
+    }
+
+    const indexed = this.db.getIndexedFile(filePath);
+    const previous = indexed ? this.db.getPhoto(indexed.id) : undefined;
+
+    // 内容未变化（例如只是 touch 了目录）
+    if (previous && indexed!.mtime === await this.sourceMtime(filePath, fileStat)) return;
+
+    const albumName = this.albumNameFor(root, filePath);
+    const photo = await this.indexFile(root, filePath, albumName, fileStat);
+
+    if (previous) {
+      change.updated.push(photo.id);
+      if (this.affectsStories(previous, photo)) {
+        change.storiesAffected = true;
       }
+      this.touchAlbum(touchedAlbums, previous);
+      touchedCities.add(cityKey(previous));
+    } else {
+      added.push(photo);
+    }
+    this.touchAlbum(touchedAlbums, photo);
+    touchedCities.add(cityKey(photo));
+  }
 
-      const cache: ScanCache = await cacheFile.json();
-      
-      // 验证缓存版本和路径
-      if (cache.version !== CACHE_VERSION || cache.photosRoot !== this.photosRoot) {
-        console.log("Cache version mismatch or different path, will rescan");
-        return;
+  private async applySidecarChange(
+    sidecarPath: string,
+    change: LibraryChange,
+    touchedAlbums: Map<string, AlbumRef>,
+    touchedCities: Set<string>,
+  ): Promise<void> {
+    const root = this.rootFor(sidecarPath);
+    if (!root) return;
+
+    const albumName = this.albumNameFor(root, sidecarPath);
+    const targets = this.db.getDirectoryPhotos(root.name, albumName)
+      .filter(photo => this.metadataProviders.some(p => p.sidecarPaths?.(photo.path).includes(sidecarPath)));
+
+    for (const previous of targets) {
+      const photo = await this.indexFile(root, previous.path, albumName);
+      change.updated.push(photo.id);
+      if (this.affectsStories(previous, photo)) {
+        change.storiesAffected = true;
       }
+      this.touchAlbum(touchedAlbums, photo);
+      touchedCities.add(cityKey(previous)).add(cityKey(photo));
+    }
+  }
 
-      // 恢复缓存的照片数据
-      for (const [id, cachedPhoto] of Object.entries(cache.photos)) {
-        this.cachedMtimes.set(cachedPhoto.path, cachedPhoto.mtime);
-        
-        // 转换回 Photo 对象
-        const photo: Photo = {
-          ...cachedPhoto,
-          takenAt: cachedPhoto.takenAt ? new Date(cachedPhoto.takenAt) : undefined,
-        };
-        delete (photo as unknown as Record<string, unknown>)['mtime'];
-        
-        this.photos.set(id, photo);
-        
-        // 重建人物索引
-        if (photo.people) {
-          for (const personName of photo.people) {
-            this.addPersonPhoto(personName, photo);
-          }
+  private touchAlbum(touchedAlbums: Map<string, AlbumRef>, photo: Photo): void {
+    if (photo.root === undefined) return;
+    const name = photo.album ?? "";
+    touchedAlbums.set(JSON.stringify([photo.root, name]), { root: photo.root, name });
+  }
+
+  private removePhoto(photo: Photo): void {
+    this.db.deletePhoto(photo.id);
+    this.db.deleteScanErrors([photo.path]);
+  }
+
+  // 内容指纹只采样了首尾，与其他文件相同时计算完整内容哈希，确认是否完全重复
+  private async confirmHashTwins(roots: LibraryRoot[]): Promise<void> {
+    const twins = this.db.getUnconfirmedHashTwins(roots.map(root => root.name));
+    await forEachConcurrent(twins, this.concurrency, async (twin) => {
+      try {
+        this.db.setFullHash(twin.id, await computeFullHash(twin.path));
+      } catch (error) {
+        this.recordError(roots.find(root => root.name === twin.root)!, twin.path, "hash", error);
+      }
+    });
+  }
+
+  // 识别移动/重命名：内容哈希相同的"删除 + 新增"视为同一张照片换了位置，
+  // 新条目改用原来的 ID，这样以 ID 关联的数据不会丢失
+  private reconcileMoves(removed: Photo[], added: Photo[]): Array<{ from: Photo; to: Photo }> {
+    const removedByHash = new Map<string, Photo[]>();
+    for (const photo of removed) {
+      if (!photo.contentHash) continue;
+      const list = removedByHash.get(photo.contentHash) || [];
+      list.push(photo);
+      removedByHash.set(photo.contentHash, list);
+    }
+
+    const moves: Array<{ from: Photo; to: Photo }> = [];
+    if (removedByHash.size === 0) return moves;
+
+    for (const photo of added) {
+      const candidates = photo.contentHash ? removedByHash.get(photo.contentHash) : undefined;
+      if (!candidates || candidates.length === 0) continue;
+
+      // 内容相同的多个候选时，优先匹配同名文件（单纯移动目录）
+      const index = Math.max(candidates.findIndex(c => c.filename === photo.filename), 0);
+      const original = candidates.splice(index, 1)[0]!;
+
+      const moved: Photo = { ...photo, id: original.id };
+      const mtime = this.db.getIndexedFile(photo.path)?.mtime ?? null;
+      this.db.transaction(() => {
+        this.db.deletePhoto(photo.id);
+        this.db.savePhoto(moved, mtime);
+      });
+      moves.push({ from: original, to: moved });
+    }
+
+    return moves;
+  }
+
+  // 影响故事内容的字段
+  private affectsStories(before: Photo, after: Photo): boolean {
+    return before.takenAt?.getTime() !== after.takenAt?.getTime()
+      || before.takenAtLocal !== after.takenAtLocal
+      || before.locationName !== after.locationName
+      || (before.people || []).join("\n") !== (after.people || []).join("\n");
+  }
+
+  // 递归收集目录下的媒体文件及其 mtime（包括附属文件的修改）
+  private async collectMediaFiles(dir: string, files: Map<string, number> = new Map()): Promise<Map<string, number>> {
+    try {
+      const entries = await readdir(dir, { withFileTypes: true });
+      const siblings = new Set(entries.map(entry => entry.name));
+
+      for (const entry of entries) {
+        if (entry.name === "@eaDir" || entry.name.startsWith(".")) {
+          continue;
         }
-        
-        // 重建地点索引
-        if (photo.locationName && photo.latitude && photo.longitude) {
-          this.addLocationPhoto(photo.locationName, photo);
+
+        const fullPath = join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await this.collectMediaFiles(fullPath, files);
+        } else if (entry.isFile() && this.isMediaFile(entry.name)) {
+          try {
+            const fileStat = await stat(fullPath);
+            files.set(fullPath, await this.sourceMtime(fullPath, fileStat, this.sidecarsOf(fullPath, siblings)));
+          } catch (error) {
+            const root = this.rootFor(fullPath);
+            if (root) this.recordError(root, fullPath, "stat", error);
+          }
         }
       }
-
-      console.log(`Loaded ${this.photos.size} photos from cache (${cache.lastScan})`);
+      this.db.deleteScanErrors([dir], "readdir");
     } catch (error) {
-      console.error("Failed to load cache:", error);
+      console.error(`Error reading directory ${dir}:`, error);
+      const root = this.rootFor(dir);
+      if (root) this.recordError(root, dir, "readdir", error);
+    }
+
+    return files;
+  }
+
+  private isMediaFile(filePath: string): boolean {
+    const ext = extname(filePath).toLowerCase();
+    return PHOTO_EXTENSIONS.has(ext) || VIDEO_EXTENSIONS.has(ext) || RAW_EXTENSIONS.has(ext);
+  }
+
+  private isSidecarFile(filePath: string): boolean {
+    return this.metadataProviders.some(provider => provider.isSidecar?.(filePath));
+  }
+
+  // 文件可能的附属文件路径；给出目录中的文件名时只保留存在的
+  private sidecarsOf(filePath: string, siblings?: Set<string>): string[] {
+    const paths = this.metadataProviders.flatMap(provider => provider.sidecarPaths?.(filePath) ?? []);
+    return siblings ? paths.filter(path => siblings.has(basename(path))) : paths;
+  }
+
+  // 索引记录的 mtime：照片文件和附属文件中最新的修改时间，
+  // 这样全量扫描和定期检查也能发现只修改了 XMP / Takeout JSON 的情况
+  private async sourceMtime(filePath: string, fileStat: Stats, sidecars = this.sidecarsOf(filePath)): Promise<number> {
+    let mtime = fileStat.mtimeMs;
+    for (const sidecar of sidecars) {
+      try {
+        mtime = Math.max(mtime, (await stat(sidecar)).mtimeMs);
+      } catch {}
     }
+    return mtime;
   }
 
-  // 保存缓存
-  private async saveCache(): Promise<void> {
+  // 文件所属的启用中的照片库（根目录不允许嵌套，最多匹配一个）
+  private rootFor(filePath: string): LibraryRoot | undefined {
+    return this.roots.find(root => root.enabled && filePath.startsWith(root.path + sep));
+  }
+
+  // 文件所在目录对应的相册名（与 scanDirectory 的命名规则一致）
+  private albumNameFor(root: LibraryRoot, filePath: string): string | undefined {
+    const relativeDir = relative(root.path, dirname(filePath));
+    return relativeDir ? relativeDir.split(sep).join("/") : undefined;
+  }
+
+  // 导入旧版 .photos-cache.json（仅在该库还没有索引时执行一次）
+  private async importLegacyCache(root: LibraryRoot): Promise<void> {
     try {
-      const cachedPhotos: Record<string, CachedPhoto> = {};
-      
-      for (const [id, photo] of this.photos) {
-        const mtime = this.cachedMtimes.get(photo.path) || 0;
-        cachedPhotos[id] = {
-          ...photo,
-          takenAt: photo.takenAt?.toISOString(),
-          mtime,
-        };
+      const cacheFile = Bun.file(join(root.path, LEGACY_CACHE_FILENAME));
+      if (!await cacheFile.exists()) return;
+
+      const cache: ScanCache = await cacheFile.json();
+      if (cache.version !== LEGACY_CACHE_VERSION) {
+        console.log("Legacy cache version mismatch, skipping import");
+        return;
       }
 
-      const cache: ScanCache = {
-        version: CACHE_VERSION,
-        photosRoot: this.photosRoot,
-        lastScan: new Date().toISOString(),
-        photos: cachedPhotos,
+      // 缓存记录的根目录可能和当前挂载路径不同，改写路径前缀（包括 @eaDir 缩略图）
+      const cacheRoot = resolve(cache.photosRoot);
+      const rebase = (path: string) => {
+        const relativePath = relative(cacheRoot, resolve(path));
+        return relativePath.startsWith("..") ? path : join(root.path, relativePath);
       };
+      this.db.transaction(() => {
+        for (const cachedPhoto of Object.values(cache.photos)) {
+          const { mtime, ...rest } = cachedPhoto;
+          const thumbnails = rest.thumbnails && Object.fromEntries(
+            Object.entries(rest.thumbnails).map(([size, path]) => [size, path && rebase(path)]),
+          );
+          this.db.savePhoto({
+            ...rest,
+            path: rebase(rest.path),
+            thumbnail: rest.thumbnail && rebase(rest.thumbnail),
+            thumbnails,
+            root: root.name,
+            takenAt: rest.takenAt ? new Date(rest.takenAt) : undefined,
+          }, mtime);
+        }
+      });
 
-      await Bun.write(this.cachePath, JSON.stringify(cache, null, 2));
-      console.log(`Saved cache with ${Object.keys(cachedPhotos).length} photos`);
+      console.log(`Imported ${Object.keys(cache.photos).length} photos from legacy cache (${cache.lastScan})`);
     } catch (error) {
-      console.error("Failed to save cache:", error);
+      console.error("Failed to import legacy cache:", error);
     }
   }
 
-  private async scanDirectory(dir: string, albumName?: string): Promise<void> {
+  // 遍历目录，收集待处理的文件和遇到的相册（只读目录，不解析文件）
+  private async scanDirectory(
+    root: LibraryRoot,
+    dir: string,
+    tasks: ScanTask[],
+    albums: AlbumRef[],
+    albumName?: string,
+  ): Promise<void> {
     try {
       // 更新当前扫描目录
-      this.scanStatus.currentDir = dir.replace(this.photosRoot, "") || "/";
+      this.scanStatus.currentDir = dir.replace(root.path, "") || "/";
+      this.emitStatus();
       
       const entries = await readdir(dir, { withFileTypes: true });
+      const siblings = new Set(entries.map(entry => entry.name));
 
       for (const entry of entries) {
         const fullPath = join(dir, entry.name);
@@ -187,358 +882,458 @@ export class PhotoScanner {
         if (entry.isDirectory()) {
           // 子目录作为相册
           const newAlbumName = albumName ? `${albumName}/${entry.name}` : entry.name;
-          await this.scanDirectory(fullPath, newAlbumName);
+          await this.scanDirectory(root, fullPath, tasks, albums, newAlbumName);
         } else if (entry.isFile()) {
-          const ext = extname(entry.name).toLowerCase();
-          if (PHOTO_EXTENSIONS.has(ext)) {
-            await this.processPhoto(fullPath, albumName);
-            
-            // 增量保存缓存
-            await this.maybeSaveCache();
+          if (this.isMediaFile(entry.name)) {
+            tasks.push({ root, path: fullPath, album: albumName, sidecars: this.sidecarsOf(fullPath, siblings) });
+            this.seenPaths.add(fullPath);
+            this.scanStats.total++;
+            this.scanStatus.total = this.scanStats.total;
           }
         }
       }
 
-      // 更新相册信息
-      if (albumName) {
-        this.updateAlbum(albumName, dir);
-      }
+      albums.push({ root: root.name, name: albumName ?? "" });
     } catch (error) {
       console.error(`Error scanning directory ${dir}:`, error);
+      this.recordError(root, dir, "readdir", error);
     }
   }
   
-  // 增量保存缓存
-  private async maybeSaveCache(): Promise<void> {
-    const scannedSinceLastSave = this.scanStats.scanned - this.lastCacheSave;
-    if (scannedSinceLastSave >= CACHE_SAVE_INTERVAL) {
-      await this.saveCache();
-      this.lastCacheSave = this.scanStats.scanned;
-    }
-  }
-
-  private async processPhoto(filePath: string, albumName?: string): Promise<void> {
-    const id = this.generateId(filePath);
-    const filename = basename(filePath);
-    this.scanStats.total++;
-    this.scanStatus.total = this.scanStats.total;
+  private async processPhoto(task: ScanTask): Promise<void> {
+    const { root, path: filePath, album: albumName } = task;
+    const indexed = this.db.getIndexedFile(filePath);
+    this.scanStatus.currentRoot = root.name;
+    this.scanStatus.currentDir = dirname(filePath).replace(root.path, "") || "/";
 
+    let fileStat: Stats | undefined;
     try {
       // 检查文件是否已缓存且未修改
-      const fileStat = await stat(filePath);
-      const currentMtime = fileStat.mtimeMs;
-      const cachedMtime = this.cachedMtimes.get(filePath);
+      fileStat = await stat(filePath);
       
-      // 如果缓存存在且 mtime 相同，跳过扫描
-      if (cachedMtime && cachedMtime === currentMtime && this.photos.has(id)) {
+      // 如果已索引且 mtime 相同，跳过扫描
+      if (indexed && indexed.mtime === await this.sourceMtime(filePath, fileStat, task.sidecars)) {
         this.scanStats.cached++;
         this.scanStatus.cached = this.scanStats.cached;
-        // 更新 mtime 以便保存
-        this.cachedMtimes.set(filePath, currentMtime);
         return;
       }
+    } catch {}
 
-      // 需要重新扫描
-      this.scanStats.scanned++;
-      this.scanStatus.scanned = this.scanStats.scanned;
-      
-      const photo: Photo = {
-        id,
-        path: filePath,
-        filename,
-        album: albumName,
-      };
+    // 需要重新扫描
+    this.scanStats.scanned++;
+    this.scanStatus.scanned = this.scanStats.scanned;
 
-      // 读取 EXIF 数据
-      await this.extractExifData(filePath, photo);
+    const photo = await this.indexFile(root, filePath, albumName, fileStat);
+    if (indexed) {
+      this.updatedCount++;
+    } else {
+      this.addedPhotos.push(photo);
+    }
+  }
+
+  // 解析单个文件并更新索引（替换同一文件之前的索引数据）
+  private async indexFile(
+    root: LibraryRoot,
+    filePath: string,
+    albumName: string | undefined,
+    fileStat?: Stats,
+  ): Promise<Photo> {
+    const id = this.idForPath(root, filePath);
+    const filename = basename(filePath);
+    const isVideo = VIDEO_EXTENSIONS.has(extname(filePath).toLowerCase());
+
+    const photo: Photo = {
+      id,
+      path: filePath,
+      filename,
+      root: root.name,
+      album: albumName,
+      mediaType: isVideo ? "video" : "photo",
+    };
 
-      // 尝试读取 Synology 元数据
-      await this.extractSynologyMetadata(filePath, photo);
+    // 之前的错误在重新解析时清除，仍然失败的重新记录
+    this.db.deleteScanErrors([filePath]);
+    let stage = "stat";
 
-      // 更新人物索引
-      if (photo.people) {
-        for (const personName of photo.people) {
-          this.addPersonPhoto(personName, photo);
-        }
+    try {
+      fileStat ??= await stat(filePath);
+
+      // 按配置的顺序读取 EXIF / 视频容器、文件名、Takeout、Synology、XMP 等元数据。
+      // 单个提供者失败不影响其他提供者，照片照常保存
+      stage = "metadata";
+      const context = createMetadataContext(filePath, isVideo);
+      await readMetadata(photo, this.metadataProviders, context);
+      for (const failure of context.failures) {
+        this.recordError(root, filePath, failure.provider, failure.message);
+      }
+
+      // 都没有拍摄时间，使用文件修改时间（扫描件、复制过的文件通常是复制的日期）
+      if (!photo.takenAt) {
+        setCaptureInstant(photo, fileStat.mtime, "mtime", "low");
       }
 
-      // 更新地点索引
-      if (photo.locationName && photo.latitude && photo.longitude) {
-        this.addLocationPhoto(photo.locationName, photo);
+      // 尺寸和方向可能来自不同的提供者，合并后再计算显示尺寸
+      applyDisplayDimensions(photo);
+
+      // 坐标可能来自 Synology 或 Takeout 元数据，全部读取完后再确定拍摄地时区和地名
+      resolveTimezone(photo);
+      stage = "geocode";
+      await this.reverseGeocode(photo);
+
+      // 内容指纹，用于识别移动和重命名
+      stage = "hash";
+      photo.contentHash = await computeContentHash(filePath);
+
+      // 感知哈希：Synology 缩略图更小，解码更快；视频只能使用封面帧，RAW 不解码原图
+      const hashSource = photo.thumbnail ?? (isVideo || isRawFile(filePath) ? undefined : filePath);
+      if (hashSource) {
+        photo.perceptualHash = await computePerceptualHash(hashSource);
       }
 
-      this.photos.set(id, photo);
-      this.cachedMtimes.set(filePath, currentMtime);
+      stage = "index";
+      this.db.savePhoto(photo, await this.sourceMtime(filePath, fileStat));
+      return photo;
     } catch (error) {
+      this.recordError(root, filePath, stage, error);
+
       // 即使解析失败也添加基本信息
-      this.photos.set(id, {
+      const basic: Photo = {
         id,
         path: filePath,
         filename,
+        root: root.name,
         album: albumName,
-      });
+        mediaType: photo.mediaType,
+      };
+      // mtime 留空，下次扫描时重试
+      this.db.savePhoto(basic, null);
+      return basic;
     }
   }
 
-  private async extractExifData(filePath: string, photo: Photo): Promise<void> {
-    try {
-      const file = Bun.file(filePath);
-      const buffer = await file.arrayBuffer();
-      const tags = ExifReader.load(buffer, { expanded: true });
-
-      // 拍摄时间
-      if (tags.exif?.DateTimeOriginal) {
-        const dateStr = tags.exif.DateTimeOriginal.description;
-        photo.takenAt = this.parseExifDate(dateStr);
-      }
+  // 有坐标的照片补全国家、省份、城市；元数据中已有的地名保持不变
+  private async reverseGeocode(photo: Photo): Promise<void> {
+    const { latitude, longitude } = photo;
+    if (latitude === undefined || longitude === undefined || (latitude === 0 && longitude === 0)) return;
+    if (photo.locationName && photo.countryCode && photo.province && photo.city) return;
 
-      // 图片尺寸
-      if (tags.file?.["Image Width"] && tags.file?.["Image Height"]) {
-        photo.width = tags.file["Image Width"].value;
-        photo.height = tags.file["Image Height"].value;
-      }
+    const place = await this.lookupPlace(latitude, longitude);
+    if (!place) return;
 
-      // GPS 位置
-      if (tags.gps?.Latitude && tags.gps?.Longitude) {
-        photo.latitude = tags.gps.Latitude;
-        photo.longitude = tags.gps.Longitude;
-      }
-
-      // 相机信息
-      if (tags.exif?.Make && tags.exif?.Model) {
-        photo.camera = `${tags.exif.Make.description} ${tags.exif.Model.description}`;
+    const sources = photo.fieldSources ?? {};
+    for (const field of ["country", "countryCode", "province", "city"] as const) {
+      if (photo[field] === undefined && place[field] !== undefined) {
+        photo[field] = place[field];
+        sources[field] = "geocoder";
       }
+    }
+    if (!photo.locationName) {
+      photo.locationName = `${place.city}, ${place.country}`;
+      sources.locationName = "geocoder";
+    }
+    photo.fieldSources = sources;
+  }
 
-      if (tags.exif?.LensModel) {
-        photo.lens = tags.exif.LensModel.description;
-      }
-    } catch (error) {
-      // EXIF 读取失败，使用文件修改时间
-      try {
-        const fileStat = await stat(filePath);
-        photo.takenAt = fileStat.mtime;
-      } catch {}
+  // 反向地理编码，结果按坐标缓存
+  private async lookupPlace(latitude: number, longitude: number): Promise<Place | null> {
+    const key = geocodeKey(latitude, longitude);
+    let place = this.db.getCachedPlace(key);
+    if (place === undefined) {
+      const [lat, lon] = key.split(",").map(Number);
+      place = await this.geocoder.lookup(lat!, lon!) ?? null;
+      this.db.cachePlace(key, place);
     }
+    return place;
   }
 
-  private async extractSynologyMetadata(filePath: string, photo: Photo): Promise<void> {
-    const dir = dirname(filePath);
-    const filename = basename(filePath);
-    const eaDirPath = join(dir, "@eaDir", filename);
+  // 在每个城市内对照片坐标聚类，重建地点（所有库一起，查询时再按库过滤）
+  // 重新聚类地点。cities 为 cityKey，增量变更时只处理有照片变化的城市，缺省为所有城市
+  private async updatePlaces(cities?: Set<string>): Promise<void> {
+    if (cities?.size === 0) return;
+    const cityPoints = new Map<string, PlacePoint[]>();
+    for (const point of this.db.getGeoPoints(cities && Array.from(cities))) {
+      const key = cityKey(point);
+      const points = cityPoints.get(key);
+      if (points) points.push(point);
+      else cityPoints.set(key, [point]);
+    }
 
-    try {
-      // Synology Photos 存储元数据的几种可能格式
-      const metadataFiles = [
-        join(eaDirPath, "SYNOPHOTO_METADATA.json"),
-        join(eaDirPath, "SYNO_PHOTO_METADATA.json"),
-      ];
-
-      for (const metaPath of metadataFiles) {
-        try {
-          const file = Bun.file(metaPath);
-          if (await file.exists()) {
-            const metadata: SynologyMetadata = await file.json();
-
-            // 人脸识别数据
-            if (metadata.face && metadata.face.length > 0) {
-              photo.people = metadata.face
-                .filter(f => f.name)
-                .map(f => f.name!);
-            }
-
-            // 地理编码
-            if (metadata.geocoding) {
-              const parts = [
-                metadata.geocoding.city,
-                metadata.geocoding.country,
-              ].filter(Boolean);
-              if (parts.length > 0) {
-                photo.locationName = parts.join(", ");
-              }
-              // GPS 坐标
-              if (metadata.geocoding.latitude && metadata.geocoding.longitude) {
-                photo.latitude = metadata.geocoding.latitude;
-                photo.longitude = metadata.geocoding.longitude;
-              }
-            }
-
-            // 拍摄时间 (从元数据读取)
-            if (metadata.takenAt && !photo.takenAt) {
-              if (typeof metadata.takenAt === 'string') {
-                photo.takenAt = new Date(metadata.takenAt);
-              } else if (typeof metadata.takenAt === 'number') {
-                photo.takenAt = new Date(metadata.takenAt);
-              }
-            }
-
-            // 标签
-            if (metadata.tags) {
-              photo.tags = metadata.tags;
-            }
-
-            // 缩略图路径
-            if (metadata.thumbnail?.xl) {
-              photo.thumbnail = join(eaDirPath, metadata.thumbnail.xl);
-            } else if (metadata.thumbnail?.m) {
-              photo.thumbnail = join(eaDirPath, metadata.thumbnail.m);
-            }
-
-            break;
-          }
-        } catch {}
-      }
+    const existing = new Map<string, PlaceRecord[]>();
+    for (const place of this.db.getPlaces().values()) {
+      const key = cityKey(place);
+      existing.set(key, [...existing.get(key) ?? [], place]);
+    }
 
-      // 查找缩略图
-      const thumbPaths = [
-        join(eaDirPath, "SYNOPHOTO_THUMB_XL.jpg"),
-        join(eaDirPath, "SYNOPHOTO_THUMB_M.jpg"),
-        join(eaDirPath, "SYNOPHOTO_THUMB_SM.jpg"),
-      ];
-
-      for (const thumbPath of thumbPaths) {
-        const thumbFile = Bun.file(thumbPath);
-        if (await thumbFile.exists()) {
-          photo.thumbnail = thumbPath;
-          break;
-        }
+    const places: Array<Omit<PlaceRecord, "id"> & { id?: number; members: string[] }> = [];
+    for (const [key, points] of cityPoints) {
+      const { country, province, city } = points[0]!;
+      const addresses = new Map(points.map(point => [point.id, point.address]));
+      const placeOf = new Map(points.flatMap(point => point.placeId !== undefined ? [[point.id, point.placeId] as const] : []));
+      const clusters = clusterPlaces(points);
+      const ids = matchPlaceIds(clusters, existing.get(key) ?? [], placeOf);
+      const names = new Map<string, number>();
+      for (const [i, cluster] of clusters.entries()) {
+        let name = await this.placeName(cluster.members.map(id => addresses.get(id)), cluster, city);
+        // 同一城市中重名的地点加上序号
+        const count = (names.get(name) ?? 0) + 1;
+        names.set(name, count);
+        if (count > 1) name = `${name} ${count}`;
+        places.push({ id: ids[i], name, country, province, city, ...cluster });
       }
-    } catch (error) {
-      // 没有 Synology 元数据，跳过
     }
+
+    this.db.savePlaces(places, cities && Array.from(cities));
+  }
+
+  // 地点名称：照片中最常见的详细地址，其次是离质心最近的 GeoNames 地名，都没有时使用城市名
+  private async placeName(
+    addresses: Array<string | undefined>,
+    center: { latitude: number; longitude: number },
+    city: string,
+  ): Promise<string> {
+    const counts = new Map<string, number>();
+    for (const address of addresses) {
+      if (address) counts.set(address, (counts.get(address) ?? 0) + 1);
+    }
+    const [address] = Array.from(counts).sort((a, b) => b[1] - a[1])[0] ?? [];
+    if (address) return address;
+
+    const nearest = await this.lookupPlace(center.latitude, center.longitude);
+    return nearest?.city ?? city;
+  }
+
+  // ID 包含库名，不同库里相同的相对路径不会冲突
+  private generateId(root: LibraryRoot, filePath: string): string {
+    return Buffer.from(`${root.name}:${relative(root.path, filePath)}`).toString("base64url");
   }
 
-  private parseExifDate(dateStr: string): Date {
-    // EXIF 日期格式: "2024:01:15 14:30:00"
-    const cleaned = dateStr.replace(/^(\d{4}):(\d{2}):(\d{2})/, "$1-$2-$3");
-    return new Date(cleaned);
+  // 已索引的路径沿用原 ID（可能是移动前的路径或旧版规则生成的）；
+  // 新路径生成 ID 时避开被移动照片占用的 ID
+  private idForPath(root: LibraryRoot, filePath: string): string {
+    const existing = this.db.getIndexedFile(filePath);
+    if (existing) return existing.id;
+
+    let id = this.generateId(root, filePath);
+    for (let n = 1; this.db.hasPhoto(id); n++) {
+      id = this.generateId(root, `${filePath}#${n}`);
+    }
+    return id;
   }
 
-  private generateId(filePath: string): string {
-    const relative = filePath.replace(this.photosRoot, "");
-    return Buffer.from(relative).toString("base64url");
+  private albumPath(album: AlbumRef): string {
+    const root = this.roots.find(r => r.name === album.root)!;
+    return join(root.path, ...album.name.split("/"));
   }
 
-  private updateAlbum(albumName: string, path: string): void {
-    const photos = Array.from(this.photos.values())
-      .filter(p => p.album === albumName);
+  // 更新目录的堆叠和相册统计。上级相册的统计包括子相册，一并重新计算
+  private updateAlbums(albums: Iterable<AlbumRef>): void {
+    const summaries = new Map<string, AlbumRef>();
+    for (const album of albums) {
+      // 先更新堆叠，相册只统计主照片
+      const photos = this.db.getDirectoryPhotos(album.root, album.name || undefined);
+      this.db.saveStacks(album.root, album.name || undefined, buildStacks(photos));
 
-    if (photos.length === 0) return;
+      for (let name = album.name || undefined; name; name = parentAlbumName(name)) {
+        summaries.set(`${album.root}:${name}`, { root: album.root, name });
+      }
+    }
+    for (const album of summaries.values()) {
+      this.updateAlbumSummary(album);
+    }
+  }
 
-    const dates = photos
-      .filter(p => p.takenAt)
-      .map(p => p.takenAt!.getTime())
-      .sort((a, b) => a - b);
+  private updateAlbumSummary(album: AlbumRef): void {
+    const summary = this.db.getAlbumSummary(album.root, album.name);
 
-    const firstDate = dates[0];
-    const lastDate = dates[dates.length - 1];
+    // 目录及其子目录中都没有照片
+    if (summary.photoCount === 0) {
+      this.db.deleteAlbum(album.root, album.name);
+      return;
+    }
 
-    this.albums.set(albumName, {
-      id: Buffer.from(albumName).toString("base64url"),
-      name: albumName,
-      path,
-      coverPhoto: photos[0]?.id,
-      photoCount: photos.length,
-      dateRange: firstDate !== undefined && lastDate !== undefined ? {
-        start: new Date(firstDate),
-        end: new Date(lastDate),
+    this.db.saveAlbum({
+      id: albumId(album.root, album.name),
+      name: album.name,
+      root: album.root,
+      path: this.albumPath(album),
+      coverPhoto: pickCoverPhoto(this.db.getCoverCandidates(album.root, album.name)),
+      photoCount: summary.photoCount,
+      dateRange: summary.start !== undefined && summary.end !== undefined ? {
+        start: new Date(summary.start),
+        end: new Date(summary.end),
       } : undefined,
     });
   }
 
-  private addPersonPhoto(personName: string, photo: Photo): void {
-    const existing = this.people.get(personName);
-    if (existing) {
-      existing.photoCount++;
-    } else {
-      this.people.set(personName, {
-        id: Buffer.from(personName).toString("base64url"),
-        name: personName,
-        photoCount: 1,
-        coverPhoto: photo.id,
-      });
-    }
+  // 查询范围：所有启用的照片库，roots 可以进一步限定为其中几个
+  private scope(roots?: string[]): string[] {
+    const enabled = this.roots.filter(r => r.enabled).map(r => r.name);
+    return roots ? enabled.filter(name => roots.includes(name)) : enabled;
   }
 
-  private addLocationPhoto(locationName: string, photo: Photo): void {
-    const existing = this.locations.get(locationName);
-    if (existing) {
-      existing.photoCount++;
-      existing.photos.push(photo.id);
-    } else {
-      this.locations.set(locationName, {
-        name: locationName,
-        latitude: photo.latitude!,
-        longitude: photo.longitude!,
-        photoCount: 1,
-        photos: [photo.id],
-      });
-    }
+  private isVisible(rootName: string | undefined): boolean {
+    return this.scope().includes(rootName ?? "");
   }
 
-  // Getter 方法
-  getAllPhotos(): Photo[] {
-    return Array.from(this.photos.values());
+  // Getter 方法（由数据库索引列提供）
+  getAllPhotos(roots?: string[]): Photo[] {
+    return this.db.getAllPhotos(this.scope(roots));
   }
 
   getPhoto(id: string): Photo | undefined {
-    return this.photos.get(id);
+    const photo = this.db.getPhoto(id);
+    return photo && this.isVisible(photo.root) ? photo : undefined;
+  }
+
+  getPhotoCount(roots?: string[]): number {
+    return this.db.getPhotoCount(this.scope(roots));
+  }
+
+  getRandomPhotos(limit: number, roots?: string[]): Photo[] {
+    return this.db.getRandomPhotos(limit, this.scope(roots));
   }
 
-  getAllAlbums(): Album[] {
-    return Array.from(this.albums.values());
+  // 堆叠中除主照片以外的文件（Live Photo 视频、RAW、连拍的其他照片）
+  getStackMembers(photo: Photo): Photo[] {
+    if (photo.stack?.role !== "primary") return [];
+    return this.db.getStackMembers(photo.id);
+  }
+
+  // 完全重复和近似重复的照片分组，maxDistance 为感知哈希允许不同的位数
+  getDuplicates(roots?: string[], maxDistance?: number): DuplicateGroup[] {
+    return findDuplicateGroups(this.getAllPhotos(roots), maxDistance);
+  }
+
+  getAllAlbums(roots?: string[], sort: AlbumSort = "name"): Album[] {
+    return sortAlbums(this.db.getAllAlbums(this.scope(roots)), sort);
   }
 
   getAlbum(id: string): Album | undefined {
-    return this.albums.get(id);
+    const album = this.db.getAlbum(id);
+    return album && this.isVisible(album.root) ? album : undefined;
   }
 
-  getAlbumPhotos(albumName: string): Photo[] {
-    return this.getAllPhotos().filter(p => p.album === albumName);
+  getAlbumPhotos(album: Album): Photo[] {
+    return this.db.getAlbumPhotos(album.root ?? "", album.name);
   }
 
-  getAllPeople(): Person[] {
-    return Array.from(this.people.values()).sort((a, b) => b.photoCount - a.photoCount);
+  getChildAlbums(album: Album, sort: AlbumSort = "name"): Album[] {
+    return sortAlbums(this.db.getChildAlbums(album.root ?? "", album.name), sort);
   }
 
-  getPersonPhotos(personName: string): Photo[] {
-    return this.getAllPhotos().filter(p => p.people?.includes(personName));
+  // 相册设置（标题、说明、封面）。封面必须是相册或子相册中显示的照片（堆叠只显示主照片），否则返回 false
+  updateAlbumSettings(album: Album, update: AlbumUpdate): boolean {
+    if (update.coverPhoto) {
+      const cover = this.db.getPhoto(update.coverPhoto);
+      const name = cover?.album ?? "";
+      if (!cover || cover.root !== album.root || (name !== album.name && !name.startsWith(`${album.name}/`))) {
+        return false;
+      }
+      if (cover.stack && cover.stack.role !== "primary") return false;
+    }
+    this.db.updateAlbumSettings(album.root ?? "", album.name, update);
+    return true;
   }
 
-  getAllLocations(): Location[] {
-    return Array.from(this.locations.values()).sort((a, b) => b.photoCount - a.photoCount);
+  resetAlbumSettings(album: Album): void {
+    this.db.resetAlbumSettings(album.root ?? "", album.name);
   }
 
-  getLocationPhotos(locationName: string): Photo[] {
-    return this.getAllPhotos().filter(p => p.locationName === locationName);
+  // 从顶层相册到上级相册的路径（不包括相册本身）
+  getAlbumBreadcrumbs(album: Album): Album[] {
+    const breadcrumbs: Album[] = [];
+    for (let parentId = album.parentId; parentId; ) {
+      const parent = this.db.getAlbum(parentId);
+      if (!parent) break;
+      breadcrumbs.unshift(parent);
+      parentId = parent.parentId;
+    }
+    return breadcrumbs;
   }
 
-  // 按日期查询
-  getPhotosByDate(date: Date): Photo[] {
-    const targetMonth = date.getMonth();
-    const targetDay = date.getDate();
+  getAllPeople(roots?: string[], includeHidden = false): Person[] {
+    return this.db.getAllPeople(this.scope(roots), includeHidden);
+  }
 
-    return this.getAllPhotos().filter(p => {
-      if (!p.takenAt) return false;
-      return p.takenAt.getMonth() === targetMonth && p.takenAt.getDate() === targetDay;
-    });
+  // 人物设置（改名、合并、别名、隐藏、生日），立即应用到已索引的照片
+  updatePerson(name: string, update: PersonUpdate): void {
+    this.db.updatePerson(name, update);
   }
 
-  getPhotosByYear(year: number): Photo[] {
-    return this.getAllPhotos().filter(p => {
-      if (!p.takenAt) return false;
-      return p.takenAt.getFullYear() === year;
-    });
+  mergePeople(names: string[], into: string): void {
+    this.db.mergePeople(names, into);
+  }
+
+  resetPerson(name: string): void {
+    this.db.resetPerson(name);
+  }
+
+  getHiddenPeople(): Set<string> {
+    return this.db.getHiddenPeople();
+  }
+
+  getUnnamedFaces(limit: number, offset: number, roots?: string[]): { total: number; faces: UnnamedFace[] } {
+    return this.db.getUnnamedFaces(this.scope(roots), limit, offset);
+  }
+
+  getPersonPhotos(personName: string, roots?: string[]): Photo[] {
+    return this.db.getPersonPhotos(personName, this.scope(roots));
+  }
+
+  // 地点树：国家 → 省份 → 城市 → 地点
+  getLocationTree(roots?: string[]): Location[] {
+    return buildLocationTree(this.db.getLocationPhotoRows(this.scope(roots)), this.db.getPlaces());
+  }
+
+  getLocationPhotos(filter: LocationFilter, roots?: string[]): Photo[] {
+    return this.db.getLocationPhotos(filter, this.scope(roots));
+  }
+
+  getLocationCount(roots?: string[]): number {
+    return this.db.getCityCount(this.scope(roots));
+  }
+
+  // 按日期查询（同月同日，不限年份）
+  getPhotosByDate(date: Date, roots?: string[]): Photo[] {
+    return this.db.getPhotosByDate(date.getMonth() + 1, date.getDate(), this.scope(roots));
+  }
+
+  // months 为 0-11，与 Date.getMonth() 一致
+  getPhotosByMonths(months: number[], roots?: string[]): Photo[] {
+    return this.db.getPhotosByMonths(months.map(m => m + 1), this.scope(roots));
+  }
+
+  getPhotosByYear(year: number, roots?: string[]): Photo[] {
+    return this.db.getPhotosByYear(year, this.scope(roots));
+  }
+
+  getPhotoYears(roots?: string[]): number[] {
+    return this.db.getPhotoYears(this.scope(roots));
   }
 
   // 获取包含多个人物的照片
-  getPhotosWithPeople(people: string[]): Photo[] {
-    return this.getAllPhotos().filter(p => {
-      if (!p.people) return false;
-      return people.every(person => p.people!.includes(person));
-    });
+  getPhotosWithPeople(people: string[], roots?: string[]): Photo[] {
+    return this.db.getPhotosWithPeople(people, this.scope(roots));
   }
 
   isIndexed(): boolean {
     return this.indexed;
   }
 }
+
+// 库名唯一，根目录不能互相嵌套（否则同一文件会被两个库索引）
+function checkLibraries(libraries: LibraryConfig[]): void {
+  const names = new Set<string>();
+  for (const library of libraries) {
+    if (names.has(library.name)) {
+      throw new Error(`Duplicate photo library name "${library.name}"`);
+    }
+    names.add(library.name);
+
+    for (const other of libraries) {
+      if (other !== library && (other.path === library.path || other.path.startsWith(library.path + sep))) {
+        throw new Error(`Photo library "${other.name}" overlaps with "${library.name}"`);
+      }
+    }
+  }
+}
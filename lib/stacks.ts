@@ -0,0 +1,156 @@
+// 堆叠：同一次拍摄产生的多个文件归到一张主照片下，列表和故事中只显示主照片
+// - Live Photo：照片 + 短视频，ContentIdentifier 相同，或文件名相同，或拍摄时间几乎相同
+// - RAW+JPEG：文件名相同，主照片为浏览器可以显示的 JPEG / HEIC
+// - 连拍：Apple BurstUUID 相同，或同一相机每隔不到 1 秒连续拍摄
+import { extname } from "node:path";
+import type { Photo, PhotoStack, StackRole } from "./types";
+
+export const RAW_EXTENSIONS = new Set([
+  ".dng", ".cr2", ".cr3", ".nef", ".nrw", ".arw", ".raf", ".orf", ".rw2", ".pef", ".srw",
+]);
+
+// Live Photo 的视频一般不到 3 秒
+const LIVE_MAX_DURATION = 5;
+
+// 按拍摄时间匹配 Live Photo 时允许的误差
+const LIVE_MAX_OFFSET_MS = 2000;
+
+// 没有 BurstUUID 时，相邻两张间隔不超过 1 秒、至少 3 张才算连拍
+const BURST_MAX_GAP_MS = 1000;
+const BURST_MIN_FRAMES = 3;
+
+interface Member {
+  photo: Photo;
+  role: StackRole;
+}
+
+export function isRawFile(filename: string): boolean {
+  return RAW_EXTENSIONS.has(extname(filename).toLowerCase());
+}
+
+// 计算同一目录中照片的堆叠，只返回属于某个堆叠的照片
+export function buildStacks(photos: Photo[]): Map<string, PhotoStack> {
+  const stills = photos.filter(p => p.mediaType !== "video" && !isRawFile(p.filename));
+  const raws = photos.filter(p => isRawFile(p.filename));
+  const videos = photos.filter(p => p.mediaType === "video");
+
+  // 主照片 -> 其余成员
+  const stacks = new Map<Photo, Member[]>();
+  const attach = (primary: Photo, photo: Photo, role: StackRole) => {
+    const members = stacks.get(primary) || [];
+    members.push({ photo, role });
+    stacks.set(primary, members);
+  };
+
+  // 同名的照片只取第一张，避免把编辑后导出的副本也当作主照片
+  const stillsByStem = new Map<string, Photo>();
+  for (const still of stills) {
+    const key = stem(still.filename);
+    if (!stillsByStem.has(key)) stillsByStem.set(key, still);
+  }
+
+  // RAW+JPEG
+  for (const raw of raws) {
+    const still = stillsByStem.get(stem(raw.filename));
+    if (still) attach(still, raw, "raw");
+  }
+
+  // Live Photo
+  const stillsById = new Map(stills.filter(p => p.contentIdentifier).map(p => [p.contentIdentifier!, p]));
+  const liveVideos = new Map<Photo, Photo>();
+  for (const video of videos) {
+    const still = (video.contentIdentifier ? stillsById.get(video.contentIdentifier) : undefined)
+      ?? stillsByStem.get(stem(video.filename))
+      ?? stillTakenWith(video, stills);
+    if (!still || liveVideos.has(still)) continue;
+    attach(still, video, "live");
+    liveVideos.set(still, video);
+  }
+
+  // 连拍：第一张作为主照片，其余照片连同各自的 RAW 和 Live 视频一起归到主照片下
+  for (const burst of findBursts(stills)) {
+    const [primary, ...frames] = burst;
+    for (const frame of frames) {
+      attach(primary!, frame, "burst");
+      for (const member of stacks.get(frame) || []) {
+        attach(primary!, member.photo, member.role);
+      }
+      stacks.delete(frame);
+    }
+  }
+
+  const result = new Map<string, PhotoStack>();
+  for (const [primary, members] of stacks) {
+    result.set(primary.id, {
+      id: primary.id,
+      role: "primary",
+      size: members.length + 1,
+      liveVideoId: liveVideos.get(primary)?.id,
+    });
+    for (const member of members) {
+      result.set(member.photo.id, { id: primary.id, role: member.role });
+    }
+  }
+  return result;
+}
+
+// 文件名去掉扩展名（不区分大小写）
+function stem(filename: string): string {
+  return filename.slice(0, filename.length - extname(filename).length).toLowerCase();
+}
+
+// 文件名和标识都对不上时（例如导出时被重命名），按拍摄时间匹配 Live Photo 的视频
+function stillTakenWith(video: Photo, stills: Photo[]): Photo | undefined {
+  if (!video.takenAt || video.duration === undefined || video.duration > LIVE_MAX_DURATION) return undefined;
+
+  let best: Photo | undefined;
+  let bestOffset = LIVE_MAX_OFFSET_MS;
+  for (const still of stills) {
+    // 只信任精确的拍摄时间
+    if (!still.takenAt || still.dateConfidence !== "high") continue;
+    const offset = Math.abs(still.takenAt.getTime() - video.takenAt.getTime());
+    if (offset <= bestOffset) {
+      best = still;
+      bestOffset = offset;
+    }
+  }
+  return best;
+}
+
+// 连拍分组，组内按拍摄时间排序
+function findBursts(stills: Photo[]): Photo[][] {
+  const bursts: Photo[][] = [];
+  const byTime = (a: Photo, b: Photo) => (a.takenAt?.getTime() ?? 0) - (b.takenAt?.getTime() ?? 0);
+
+  const byBurstId = new Map<string, Photo[]>();
+  for (const still of stills) {
+    if (!still.burstId) continue;
+    const frames = byBurstId.get(still.burstId) || [];
+    frames.push(still);
+    byBurstId.set(still.burstId, frames);
+  }
+  for (const frames of byBurstId.values()) {
+    if (frames.length > 1) bursts.push(frames.sort(byTime));
+  }
+
+  // 没有 BurstUUID 的相机：同一相机、拍摄时间来自 EXIF，相邻间隔很短
+  const timed = stills
+    .filter(p => !p.burstId && p.takenAt && p.dateSource === "exif")
+    .sort(byTime);
+  let run: Photo[] = [];
+  const flush = () => {
+    if (run.length >= BURST_MIN_FRAMES) bursts.push(run);
+    run = [];
+  };
+  for (const still of timed) {
+    const previous = run[run.length - 1];
+    if (previous && (previous.camera !== still.camera
+      || still.takenAt!.getTime() - previous.takenAt!.getTime() > BURST_MAX_GAP_MS)) {
+      flush();
+    }
+    run.push(still);
+  }
+  flush();
+
+  return bursts;
+}
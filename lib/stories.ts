@@ -1,6 +1,9 @@
 // 故事回顾生成器
 import type { Photo, Story, StoryType, Person, Location } from "./types";
 import type { PhotoScanner } from "./scanner";
+import { localDate } from "./dates";
+import { collapseDuplicates } from "./duplicates";
+import { flattenLocations } from "./locations";
 
 export class StoryGenerator {
   private scanner: PhotoScanner;
@@ -38,24 +41,18 @@ export class StoryGenerator {
   // 多少年前的今天
   generateYearsAgoStory(targetDate?: Date): Story | null {
     const today = targetDate || new Date();
-    const allPhotos = this.scanner.getAllPhotos();
 
     // 收集同一天（不同年份）的照片
     const photosOnThisDay: Map<number, Photo[]> = new Map();
 
-    for (const photo of allPhotos) {
-      if (!photo.takenAt) continue;
-
-      if (
-        photo.takenAt.getMonth() === today.getMonth() &&
-        photo.takenAt.getDate() === today.getDate()
-      ) {
-        const year = photo.takenAt.getFullYear();
-        if (!photosOnThisDay.has(year)) {
-          photosOnThisDay.set(year, []);
-        }
-        photosOnThisDay.get(year)!.push(photo);
+    // 按拍摄地的当地日期匹配，旅行中的照片不会因为时差落到前后一天
+    for (const photo of this.scanner.getPhotosByDate(today)) {
+      if (!this.hasReliableDate(photo)) continue;
+      const year = localDate(photo)!.year;
+      if (!photosOnThisDay.has(year)) {
+        photosOnThisDay.set(year, []);
       }
+      photosOnThisDay.get(year)!.push(photo);
     }
 
     if (photosOnThisDay.size === 0) {
@@ -74,7 +71,7 @@ export class StoryGenerator {
 
     // 获取地点信息
     const locations = [...new Set(photos.map(p => p.locationName).filter(Boolean))];
-    const people = [...new Set(photos.flatMap(p => p.people || []))];
+    const people = this.visiblePeople(photos);
 
     let subtitle = "";
     if (locations.length > 0) {
@@ -106,20 +103,20 @@ export class StoryGenerator {
     const nearbyPhotos: Photo[] = [];
 
     for (const photo of allPhotos) {
-      if (!photo.takenAt) continue;
+      const photoDate = localDate(photo);
+      if (!photoDate || !this.hasReliableDate(photo)) continue;
 
-      const photoDate = new Date(photo.takenAt);
       // 设置为同一年来比较日期差
       const thisYearPhotoDate = new Date(
         today.getFullYear(),
-        photoDate.getMonth(),
-        photoDate.getDate()
+        photoDate.month - 1,
+        photoDate.day
       );
       const diffDays = Math.abs(
         (today.getTime() - thisYearPhotoDate.getTime()) / (1000 * 60 * 60 * 24)
       );
 
-      if (diffDays <= 7 && photoDate.getFullYear() < today.getFullYear()) {
+      if (diffDays <= 7 && photoDate.year < today.getFullYear()) {
         nearbyPhotos.push(photo);
       }
     }
@@ -168,7 +165,7 @@ export class StoryGenerator {
   private createPeopleStory(names: string[], photos: Photo[]): Story {
     // 分析这些人的共同经历
     const locations = [...new Set(photos.map(p => p.locationName).filter(Boolean))];
-    const years = [...new Set(photos.map(p => p.takenAt?.getFullYear()).filter(Boolean))].sort();
+    const years = [...new Set(photos.map(p => localDate(p)?.year).filter(Boolean))].sort();
 
     let description = "";
     if (years.length > 1) {
@@ -195,27 +192,34 @@ export class StoryGenerator {
     };
   }
 
-  // 地点故事
+  // 地点故事：整个城市，或城市中的一个地点
   generateLocationStory(): Story | null {
-    const locations = this.scanner.getAllLocations();
+    const candidates = flattenLocations(this.scanner.getLocationTree())
+      .filter(({ location }) => location.level === "city" || location.level === "place");
 
-    if (locations.length === 0) return null;
+    if (candidates.length === 0) return null;
 
     // 随机选择一个地点（优先选择照片较多的）
-    const weightedLocations = locations.flatMap(loc =>
-      Array(Math.min(loc.photoCount, 10)).fill(loc)
+    const weightedLocations = candidates.flatMap(candidate =>
+      Array<typeof candidate>(Math.min(candidate.location.photoCount, 10)).fill(candidate)
     );
-    const selectedLocation = weightedLocations[
+    const { location: selectedLocation, parents } = weightedLocations[
       Math.floor(Math.random() * weightedLocations.length)
-    ];
+    ]!;
+
+    // 地点名称前加上城市，例如「京都·清水寺」
+    const city = parents.find(parent => parent.level === "city");
+    const name = city && city.name !== selectedLocation.name
+      ? `${city.name}·${selectedLocation.name}`
+      : selectedLocation.name;
 
-    const photos = this.scanner.getLocationPhotos(selectedLocation.name);
+    const photos = this.scanner.getLocationPhotos(selectedLocation.filter);
 
     if (photos.length === 0) return null;
 
     // 分析这个地点的故事
-    const people = [...new Set(photos.flatMap(p => p.people || []))];
-    const years = [...new Set(photos.map(p => p.takenAt?.getFullYear()).filter(Boolean))].sort();
+    const people = this.visiblePeople(photos);
+    const years = [...new Set(photos.map(p => localDate(p)?.year).filter(Boolean))].sort();
 
     let description = "";
     if (years.length > 1) {
@@ -229,15 +233,15 @@ export class StoryGenerator {
     }
 
     return {
-      id: `location-${selectedLocation.name}-${Date.now()}`,
+      id: `location-${name}-${Date.now()}`,
       type: "location",
-      title: `${selectedLocation.name}的故事`,
+      title: `${name}的故事`,
       subtitle: `${photos.length}张照片的回忆`,
       description,
       photos: this.shuffleAndLimit(photos, 30),
       createdAt: new Date(),
       metadata: {
-        location: selectedLocation.name,
+        location: name,
         people: people.length > 0 ? people : undefined,
       },
     };
@@ -265,12 +269,8 @@ export class StoryGenerator {
       seasonMonths = [11, 0, 1];
     }
 
-    const allPhotos = this.scanner.getAllPhotos();
-    const seasonPhotos = allPhotos.filter(p => {
-      if (!p.takenAt) return false;
-      const photoMonth = p.takenAt.getMonth();
-      const photoYear = p.takenAt.getFullYear();
-      return seasonMonths.includes(photoMonth) && photoYear < today.getFullYear();
+    const seasonPhotos = this.scanner.getPhotosByMonths(seasonMonths).filter(p => {
+      return this.hasReliableDate(p) && localDate(p)!.year < today.getFullYear();
     });
 
     if (seasonPhotos.length === 0) return null;
@@ -278,7 +278,7 @@ export class StoryGenerator {
     // 按年份分组
     const byYear = new Map<number, Photo[]>();
     for (const photo of seasonPhotos) {
-      const year = photo.takenAt!.getFullYear();
+      const year = localDate(photo)!.year;
       if (!byYear.has(year)) byYear.set(year, []);
       byYear.get(year)!.push(photo);
     }
@@ -309,14 +309,13 @@ export class StoryGenerator {
 
   // 随机照片故事
   generateRandomPhotosStory(): Story {
-    const allPhotos = this.scanner.getAllPhotos();
-    const photos = this.shuffleAndLimit(allPhotos, 20);
+    const photos = collapseDuplicates(this.scanner.getRandomPhotos(20));
 
     return {
       id: `random-${Date.now()}`,
       type: "random",
       title: "随机回忆",
-      subtitle: `${allPhotos.length}张照片中的精选`,
+      subtitle: `${this.scanner.getPhotoCount()}张照片中的精选`,
       photos,
       createdAt: new Date(),
     };
@@ -366,6 +365,17 @@ export class StoryGenerator {
   }
 
   // 辅助方法
+  // 只精确到年月或来自文件修改时间的日期不用于按日期的回忆
+  private hasReliableDate(photo: Photo): boolean {
+    return photo.dateConfidence !== "low";
+  }
+
+  // 照片中出现的人物，不包括隐藏的人物（照片的 people 已经是别名对应的显示名字）
+  private visiblePeople(photos: Photo[]): string[] {
+    const hidden = this.scanner.getHiddenPeople();
+    return [...new Set(photos.flatMap(p => p.people || []))].filter(name => !hidden.has(name));
+  }
+
   private shuffleArray<T>(array: T[]): T[] {
     const result = [...array];
     for (let i = result.length - 1; i > 0; i--) {
@@ -377,7 +387,8 @@ export class StoryGenerator {
     return result;
   }
 
-  private shuffleAndLimit<T>(array: T[], limit: number): T[] {
-    return this.shuffleArray(array).slice(0, limit);
+  // 同一张照片的多个副本（手机、WhatsApp、备份）只保留一张
+  private shuffleAndLimit(photos: Photo[], limit: number): Photo[] {
+    return this.shuffleArray(collapseDuplicates(photos)).slice(0, limit);
   }
 }
@@ -0,0 +1,210 @@
+// 缩略图：按请求的尺寸选择 Synology @eaDir 缩略图，没有合适的时用 sharp 生成（RAW 使用内嵌的预览）。
+// 生成的结果缓存在数据目录中，按照片 ID 和文件 mtime 命名，总大小超过上限时删除最久没有使用的
+import sharp from "sharp";
+import { createHash } from "node:crypto";
+import { mkdirSync, readdirSync, statSync } from "node:fs";
+import { rename, stat, unlink, utimes } from "node:fs/promises";
+import { extname, join } from "node:path";
+import { readExifThumbnail } from "./exif";
+import { extractEmbeddedPreview } from "./rawpreview";
+import { isRawFile } from "./stacks";
+import type { Photo, SynologyThumbnailSize, ThumbnailSize } from "./types";
+
+// 长边尺寸：sm / m / xl 与 Synology 的缩略图相同
+export const THUMBNAIL_SIZES: Record<ThumbnailSize, number> = {
+  sm: 240,
+  m: 320,
+  xl: 1280,
+  preview: 2048,
+};
+
+// 从小到大，请求的尺寸没有 Synology 缩略图时使用更大的一个
+const SYNOLOGY_SIZES: SynologyThumbnailSize[] = ["sm", "m", "xl"];
+
+// sharp 可以直接解码的格式。HEIC 需要带 HEVC 解码器的 libvips，预编译的 sharp 不支持，解码失败后不再重试
+const DECODABLE_EXTENSIONS = new Set([".jpg", ".jpeg", ".png", ".webp", ".tif", ".tiff", ".heic", ".heif"]);
+
+// 浏览器可以直接显示的格式，其他格式的原图只在下载时发送
+const BROWSER_EXTENSIONS = new Set([".jpg", ".jpeg", ".png", ".webp", ".gif", ".bmp"]);
+
+// 按 EXIF 方向摆正：先水平镜像（sharp 的 flop 在旋转之前执行），再顺时针旋转
+const ORIENTATION_TRANSFORMS: Record<number, { flop: boolean; angle: number }> = {
+  2: { flop: true, angle: 0 },
+  3: { flop: false, angle: 180 },
+  4: { flop: true, angle: 180 },
+  5: { flop: true, angle: 270 },
+  6: { flop: false, angle: 90 },
+  7: { flop: true, angle: 90 },
+  8: { flop: false, angle: 270 },
+};
+
+const DEFAULT_MAX_CACHE_BYTES = 1024 * 1024 * 1024;
+
+export class ThumbnailGenerator {
+  private cacheDir: string;
+  private maxBytes: number;
+  private pending: Map<string, Promise<string | null>> = new Map();
+  private failed: Set<string> = new Set(); // 无法解码的缓存文件名，本次运行中不再尝试
+
+  // 缓存文件名 -> 大小，按最近使用的顺序排列（最久没有使用的在前）
+  private entries: Map<string, number> = new Map();
+  private totalBytes = 0;
+
+  constructor(cacheDir: string, maxBytes = DEFAULT_MAX_CACHE_BYTES) {
+    this.cacheDir = cacheDir;
+    this.maxBytes = maxBytes;
+    mkdirSync(cacheDir, { recursive: true });
+    this.loadEntries();
+  }
+
+  canGenerate(photo: Photo): boolean {
+    if (photo.mediaType === "video") return false;
+    return DECODABLE_EXTENSIONS.has(extname(photo.path).toLowerCase()) || isRawFile(photo.path);
+  }
+
+  // 原图能否直接在浏览器中显示（HEIC、TIFF、RAW 需要转换）
+  isBrowserSafe(photo: Photo): boolean {
+    return photo.mediaType === "video" || BROWSER_EXTENSIONS.has(extname(photo.path).toLowerCase());
+  }
+
+  // 选择要发送的文件：
+  // - sm / m / xl 优先使用相同尺寸的 Synology 缩略图，其次是生成的缩略图，再次是更大的 Synology 缩略图
+  // - preview 从原图生成，不能生成时使用最大的 Synology 缩略图
+  // 都没有时浏览器能显示的照片使用原图；视频（没有封面帧）和浏览器不能显示的格式返回 null
+  async resolve(photo: Photo, size: ThumbnailSize): Promise<string | null> {
+    const synology = photo.thumbnails ?? {};
+    if (size !== "preview" && synology[size]) return synology[size];
+
+    const generated = await this.get(photo, size);
+    if (generated) return generated;
+
+    const larger = size === "preview" ? [] : SYNOLOGY_SIZES.slice(SYNOLOGY_SIZES.indexOf(size) + 1);
+    for (const candidate of larger) {
+      if (synology[candidate]) return synology[candidate];
+    }
+    if (photo.thumbnail) return photo.thumbnail;
+    return photo.mediaType !== "video" && this.isBrowserSafe(photo) ? photo.path : null;
+  }
+
+  // 返回生成的缩略图文件路径，无法生成时返回 null
+  async get(photo: Photo, size: ThumbnailSize): Promise<string | null> {
+    if (!this.canGenerate(photo)) return null;
+
+    let mtime: number;
+    try {
+      mtime = Math.floor((await stat(photo.path)).mtimeMs);
+    } catch {
+      return null;
+    }
+
+    // 原图修改后使用新的缓存文件，旧文件留给 LRU 淘汰
+    const id = createHash("sha1").update(photo.id).digest("hex");
+    const name = `${id}-${mtime}-${size}.jpg`;
+    const thumbPath = join(this.cacheDir, name);
+    if (this.entries.has(name)) {
+      this.touch(name);
+      return thumbPath;
+    }
+    if (this.failed.has(name)) return null;
+
+    // 同一缩略图的并发请求只生成一次
+    let task = this.pending.get(name);
+    if (!task) {
+      task = this.generate(photo.path, size, name).finally(() => this.pending.delete(name));
+      this.pending.set(name, task);
+    }
+    return task;
+  }
+
+  // 原图无法解码时（例如 libheif 没有 HEVC 解码器时的 HEIC）使用 EXIF 内嵌的缩略图，尺寸较小但能显示
+  private async generate(source: string, size: ThumbnailSize, name: string): Promise<string | null> {
+    const thumbPath = join(this.cacheDir, name);
+    const generated = await this.render(await this.decode(source), size, thumbPath)
+      || await this.render(await this.decodeExifThumbnail(source), size, thumbPath);
+    if (!generated) {
+      console.error(`Failed to generate ${size} thumbnail for ${source}`);
+      this.failed.add(name);
+      return null;
+    }
+    this.add(name, (await stat(thumbPath)).size);
+    return thumbPath;
+  }
+
+  // 缩小并写入缓存文件，成功时返回 true
+  private async render(image: ReturnType<typeof sharp> | null, size: ThumbnailSize, thumbPath: string): Promise<boolean> {
+    if (!image) return false;
+    const tempPath = `${thumbPath}.tmp`;
+    try {
+      await image
+        .resize(THUMBNAIL_SIZES[size], THUMBNAIL_SIZES[size], { fit: "inside", withoutEnlargement: true })
+        .jpeg({ quality: 80 })
+        .toFile(tempPath);
+      await rename(tempPath, thumbPath);
+      return true;
+    } catch {
+      await unlink(tempPath).catch(() => {});
+      return false;
+    }
+  }
+
+  // 摆正后的图像：RAW 使用内嵌的 JPEG 预览，其他格式按 EXIF 方向 rotate()，缩略图本身不再带方向标记
+  private async decode(source: string): Promise<ReturnType<typeof sharp> | null> {
+    if (!isRawFile(source)) {
+      return sharp(source, { failOn: "none" }).rotate();
+    }
+    const preview = await extractEmbeddedPreview(source);
+    if (!preview) return null;
+    return orient(preview.data, preview.orientation);
+  }
+
+  private async decodeExifThumbnail(source: string): Promise<ReturnType<typeof sharp> | null> {
+    const thumbnail = await readExifThumbnail(source);
+    return thumbnail && orient(thumbnail.data, thumbnail.orientation);
+  }
+
+  // 启动时按文件的修改时间恢复使用顺序（命中缓存时会更新修改时间）
+  private loadEntries(): void {
+    const files = readdirSync(this.cacheDir)
+      .filter(name => name.endsWith(".jpg"))
+      .map(name => {
+        const stats = statSync(join(this.cacheDir, name));
+        return { name, size: stats.size, mtime: stats.mtimeMs };
+      })
+      .sort((a, b) => a.mtime - b.mtime);
+
+    for (const file of files) {
+      this.entries.set(file.name, file.size);
+      this.totalBytes += file.size;
+    }
+    this.evict();
+  }
+
+  private touch(name: string): void {
+    const size = this.entries.get(name)!;
+    this.entries.delete(name);
+    this.entries.set(name, size);
+    const now = new Date();
+    utimes(join(this.cacheDir, name), now, now).catch(() => {});
+  }
+
+  private add(name: string, size: number): void {
+    this.entries.set(name, size);
+    this.totalBytes += size;
+    this.evict();
+  }
+
+  private evict(): void {
+    for (const [name, size] of this.entries) {
+      if (this.totalBytes <= this.maxBytes) break;
+      this.entries.delete(name);
+      this.totalBytes -= size;
+      unlink(join(this.cacheDir, name)).catch(() => {});
+    }
+  }
+}
+
+// 内嵌的预览和缩略图没有方向标记，按原图的 EXIF 方向摆正
+function orient(data: Uint8Array, orientation: number): ReturnType<typeof sharp> {
+  const transform = ORIENTATION_TRANSFORMS[orientation] ?? { flop: false, angle: 0 };
+  return sharp(data, { failOn: "none" }).flop(transform.flop).rotate(transform.angle);
+}
@@ -1,60 +1,201 @@
 // Synology Photos 数据类型定义
 
+// 媒体类型
+export type MediaType = 'photo' | 'video';
+
+// 拍摄时间的来源，按推断顺序排列
+export type DateSource = 'exif' | 'video' | 'filename' | 'folder' | 'takeout' | 'synology' | 'mtime';
+
+// 拍摄时间的可信度。low 表示只精确到年或月，或者只是文件修改时间，不用于按日期的回忆
+export type DateConfidence = 'high' | 'medium' | 'low';
+
+// 缩略图尺寸：sm / m / xl 对应 Synology 的缩略图，preview 用于查看器（比 xl 更清晰）
+export type ThumbnailSize = 'sm' | 'm' | 'xl' | 'preview';
+export type SynologyThumbnailSize = Exclude<ThumbnailSize, 'preview'>;
+
 export interface Photo {
   id: string;
   path: string;
   filename: string;
-  thumbnail?: string;
+  thumbnail?: string; // 视频为封面帧，有多个尺寸时为最大的一个
+  thumbnails?: Partial<Record<SynologyThumbnailSize, string>>; // Synology 各尺寸的缩略图
+  mediaType?: MediaType; // 缺省为 photo
+  root?: string; // 所属照片库名称
   
   // EXIF 数据
-  takenAt?: Date;
-  width?: number;
+  takenAt?: Date;           // 拍摄时刻
+  takenAtLocal?: string;    // 拍摄地的当地时间 "YYYY-MM-DDTHH:mm:ss"，按日期的查询和故事都以它为准
+  takenAtOffset?: number;   // 拍摄地相对 UTC 的偏移（分钟），未知时为空
+  dateSource?: DateSource;
+  dateConfidence?: DateConfidence;
+  width?: number;           // 文件中存储的像素尺寸（未按方向旋转）
   height?: number;
+  orientation?: number;     // EXIF 方向 1-8（视频为轨道的旋转），缺省为 1
+  displayWidth?: number;    // 按方向摆正后显示的尺寸
+  displayHeight?: number;
   
   // GPS 位置
   latitude?: number;
   longitude?: number;
   locationName?: string;
+  country?: string;      // Synology 地理编码或离线反向地理编码
+  countryCode?: string;  // ISO 3166-1，仅反向地理编码
+  province?: string;
+  city?: string;
+  address?: string;      // Synology 地理编码的详细地址，用于给聚类得到的地点命名
   
   // 相机信息
   camera?: string;
   lens?: string;
   
+  // 视频信息 (容器元数据)
+  duration?: number; // 秒
+  videoCodec?: string;
+  
   // 人脸识别 (Synology Photos 元数据)
-  people?: string[];
+  people?: string[];      // 已命名的人物
+  faces?: FaceRegion[];   // 人脸框，包括未命名的
   
-  // 标签
+  // 标签 (Synology 标签和 XMP / IPTC 关键词)
   tags?: string[];
   
+  // 描述信息 (XMP / IPTC)
+  rating?: number;      // 0-5，-1 表示已拒绝
+  title?: string;
+  description?: string;
+  
   // 相册
   album?: string;
+  
+  // 内容指纹 (文件大小 + 首尾采样的哈希)，用于识别移动和重命名，也用于查找完全重复的文件
+  contentHash?: string;
+  fullHash?: string; // 完整内容的哈希，只在内容指纹与其他文件相同时计算，用于确认完全重复
+  
+  // 感知哈希 (dHash，16 位十六进制)，用于查找近似重复的照片
+  perceptualHash?: string;
+  
+  // 关联同一次拍摄的文件 (Apple MakerNote / QuickTime 元数据)
+  contentIdentifier?: string; // Live Photo 的照片和视频相同
+  burstId?: string;           // 同一组连拍相同
+  
+  // 所属的堆叠，由同一目录中的文件计算得出
+  stack?: PhotoStack;
+  
+  // 字段名 -> 提供该字段的元数据提供者（合并的列表字段为逗号分隔的多个），用于排查
+  fieldSources?: Record<string, string>;
+}
+
+// 堆叠中的角色：primary 为列表中显示的照片，其余只在展开堆叠时显示
+export type StackRole = 'primary' | 'live' | 'raw' | 'burst';
+
+export interface PhotoStack {
+  id: string;            // 主照片 ID
+  role: StackRole;
+  size?: number;         // 仅主照片：堆叠中的文件数
+  liveVideoId?: string;  // 仅主照片：Live Photo 的视频
+}
+
+// 反向地理编码结果
+export interface Place {
+  country: string;
+  countryCode: string;
+  province?: string;
+  city: string;
+}
+
+// 人脸区域，坐标为相对于图片宽高的比例 (0-1)，原点在左上角
+export interface FaceRegion {
+  id: string;    // Synology 人脸 ID
+  name?: string; // 未命名时为空
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// 未命名人脸列表项
+export interface UnnamedFace {
+  photoId: string;
+  face: FaceRegion;
+}
+
+// 重复照片分组：exact 为内容完全相同的文件，near 包含重新压缩、缩放过的近似重复
+export interface DuplicateGroup {
+  kind: 'exact' | 'near'; // exact 为完整内容相同
+  photos: Photo[]; // 第一张为建议保留的照片（分辨率最高）
 }
 
 export interface Album {
   id: string;
-  name: string;
+  name: string;  // 相对于照片库根目录的路径
+  root?: string; // 所属照片库名称
+  parentId?: string;  // 上级目录的相册，顶层相册没有
+  childCount: number; // 子相册数
   path: string;
-  coverPhoto?: string;
-  photoCount: number;
+  title?: string;       // 设置的标题，显示时代替目录名
+  description?: string;
+  coverPhoto?: string;  // 设置的封面，否则为自动选择的
+  customCover?: boolean;
+  photoCount: number; // 包括子相册中的照片，日期范围同样
   dateRange?: {
     start: Date;
     end: Date;
   };
 }
 
+// 相册排序：date 最近的在前，name 按标题，size 照片多的在前
+export type AlbumSort = 'date' | 'name' | 'size';
+
 export interface Person {
   id: string;
   name: string;
   photoCount: number;
   coverPhoto?: string;
+  coverFaceId?: string; // coverPhoto 中该人物的人脸，用于裁剪头像
+  hidden?: boolean;     // 不在人物列表和故事中出现
+  birthday?: string;    // YYYY-MM-DD
+  aliases?: string[];   // 合并到这个人物的其他名字
+}
+
+// 地点层级：国家 → 省份 → 城市 → 地点（照片密集的区域）
+export type LocationLevel = 'country' | 'region' | 'city' | 'place';
+
+export interface GeoBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+// 查询某个地点的照片，同时用作地点的 ID
+export interface LocationFilter {
+  country?: string;
+  region?: string;
+  city?: string;
+  place?: number;
 }
 
 export interface Location {
+  id: string;
+  level: LocationLevel;
   name: string;
-  latitude: number;
-  longitude: number;
+  filter: LocationFilter;
+  latitude?: number;  // 有坐标的照片的质心
+  longitude?: number;
+  bounds?: GeoBounds;
   photoCount: number;
-  photos: string[]; // photo ids
+  coverPhoto?: string;
+  children?: Location[];
+}
+
+// 扫描时单个文件或目录的错误。stage 为出错的阶段：
+// stat、readdir、元数据提供者的名称（exif、synology 等）、metadata、geocode、hash、index
+export interface ScanError {
+  root: string;
+  path: string; // 库内的路径，以 / 开头
+  stage: string;
+  message: string;
+  time: Date;
 }
 
 // 故事类型
@@ -111,7 +252,17 @@ export interface SynologyMetadata {
   takenAt?: string | number;
 }
 
-// 缓存数据结构
+// Google 相册导出 (Takeout) 的 JSON 附属文件，只列出用到的字段
+export interface TakeoutMetadata {
+  title?: string;
+  description?: string;
+  photoTakenTime?: { timestamp: string; formatted?: string }; // UTC 秒数
+  geoData?: { latitude: number; longitude: number; altitude?: number };
+  geoDataExif?: { latitude: number; longitude: number; altitude?: number };
+  people?: Array<{ name: string }>;
+}
+
+// 旧版 JSON 缓存结构（仅用于导入到索引数据库）
 export interface CachedPhoto extends Omit<Photo, 'takenAt'> {
   takenAt?: string; // JSON 序列化为 ISO 字符串
   mtime: number;    // 文件修改时间戳，用于检测变更
@@ -0,0 +1,224 @@
+// 视频容器元数据解析 (MP4 / MOV / M4V 等 ISO BMFF 格式)
+import { readBoxes, readType, type Box } from "./bmff";
+
+export interface VideoMetadata {
+  duration?: number; // 秒
+  width?: number;
+  height?: number;
+  orientation?: number; // 轨道矩阵的旋转，按 EXIF 方向表示（手机竖拍的视频为 6）
+  codec?: string;
+  createdAt?: Date;
+  contentIdentifier?: string; // Live Photo 视频与照片共用的标识
+}
+
+// ISO BMFF 时间从 1904-01-01 UTC 开始计算
+const MAC_EPOCH_OFFSET = Date.UTC(1904, 0, 1);
+
+// 常见视频编码的 fourcc
+const CODEC_NAMES: Record<string, string> = {
+  avc1: "H.264",
+  avc3: "H.264",
+  hvc1: "HEVC",
+  hev1: "HEVC",
+  av01: "AV1",
+  vp09: "VP9",
+  mp4v: "MPEG-4",
+  jpeg: "Motion JPEG",
+  apcn: "ProRes 422",
+  apch: "ProRes 422 HQ",
+  apcs: "ProRes 422 LT",
+  apco: "ProRes 422 Proxy",
+  ap4h: "ProRes 4444",
+};
+
+// QuickTime 元数据中 Live Photo 的标识
+const CONTENT_IDENTIFIER_KEY = "com.apple.quicktime.content.identifier";
+
+// moov 盒子的最大读取大小，防止损坏文件导致读取整个大文件
+const MAX_MOOV_SIZE = 64 * 1024 * 1024;
+
+// 读取视频容器元数据（只读取必要的盒子，不加载整个文件）
+export async function readVideoMetadata(filePath: string): Promise<VideoMetadata> {
+  const file = Bun.file(filePath);
+  const size = file.size;
+  let offset = 0;
+
+  // 遍历顶层盒子，找到 moov（可能在文件开头或末尾）
+  while (offset + 8 <= size) {
+    const header = new DataView(await file.slice(offset, offset + 16).arrayBuffer());
+    let boxSize = header.getUint32(0);
+    const type = readType(header, 4);
+    let headerSize = 8;
+
+    if (boxSize === 1) {
+      if (header.byteLength < 16) break;
+      boxSize = Number(header.getBigUint64(8));
+      headerSize = 16;
+    } else if (boxSize === 0) {
+      boxSize = size - offset;
+    }
+
+    if (boxSize < headerSize) break;
+
+    if (type === "moov") {
+      if (boxSize > MAX_MOOV_SIZE) break;
+      const moov = new DataView(await file.slice(offset + headerSize, offset + boxSize).arrayBuffer());
+      return parseMoov(moov);
+    }
+
+    offset += boxSize;
+  }
+
+  return {};
+}
+
+function parseMoov(view: DataView): VideoMetadata {
+  const metadata: VideoMetadata = {};
+
+  for (const box of readBoxes(view, 0, view.byteLength)) {
+    if (box.type === "mvhd") {
+      parseMvhd(view, box, metadata);
+    } else if (box.type === "trak") {
+      parseTrak(view, box, metadata);
+    } else if (box.type === "meta") {
+      metadata.contentIdentifier = readQuickTimeKey(view, box, CONTENT_IDENTIFIER_KEY);
+    }
+  }
+
+  return metadata;
+}
+
+// 电影头：时长和创建时间
+function parseMvhd(view: DataView, box: Box, metadata: VideoMetadata): void {
+  const version = view.getUint8(box.start);
+  let creationTime: number;
+  let timescale: number;
+  let duration: number;
+
+  if (version === 1) {
+    creationTime = Number(view.getBigUint64(box.start + 4));
+    timescale = view.getUint32(box.start + 20);
+    duration = Number(view.getBigUint64(box.start + 24));
+  } else {
+    creationTime = view.getUint32(box.start + 4);
+    timescale = view.getUint32(box.start + 12);
+    duration = view.getUint32(box.start + 16);
+  }
+
+  if (timescale > 0) {
+    metadata.duration = Math.round((duration / timescale) * 100) / 100;
+  }
+
+  // 很多设备写入 0 作为创建时间，忽略
+  if (creationTime > 0) {
+    metadata.createdAt = new Date(MAC_EPOCH_OFFSET + creationTime * 1000);
+  }
+}
+
+// 轨道：只关心第一条视频轨道的尺寸和编码
+function parseTrak(view: DataView, trak: Box, metadata: VideoMetadata): void {
+  if (metadata.codec) return;
+
+  let width: number | undefined;
+  let height: number | undefined;
+  let orientation: number | undefined;
+  let isVideo = false;
+  let codec: string | undefined;
+
+  for (const box of readBoxes(view, trak.start, trak.end)) {
+    if (box.type === "tkhd") {
+      const version = view.getUint8(box.start);
+      const sizeOffset = box.start + (version === 1 ? 88 : 76);
+      if (sizeOffset + 8 <= box.end) {
+        width = view.getUint32(sizeOffset) >>> 16;
+        height = view.getUint32(sizeOffset + 4) >>> 16;
+        // 尺寸之前是 3x3 变换矩阵，前两个值 (16.16 定点数) 给出旋转角度
+        orientation = matrixOrientation(view.getInt32(sizeOffset - 36), view.getInt32(sizeOffset - 32));
+      }
+    } else if (box.type === "mdia") {
+      for (const mdiaChild of readBoxes(view, box.start, box.end)) {
+        if (mdiaChild.type === "hdlr") {
+          isVideo = readType(view, mdiaChild.start + 8) === "vide";
+        } else if (mdiaChild.type === "minf") {
+          codec = findCodec(view, mdiaChild);
+        }
+      }
+    }
+  }
+
+  if (!isVideo) return;
+
+  if (width && height) {
+    metadata.width = width;
+    metadata.height = height;
+    metadata.orientation = orientation;
+  }
+  if (codec) {
+    metadata.codec = CODEC_NAMES[codec] || codec;
+  }
+}
+
+// minf -> stbl -> stsd 中第一个采样描述的格式即编码
+function findCodec(view: DataView, minf: Box): string | undefined {
+  for (const box of readBoxes(view, minf.start, minf.end)) {
+    if (box.type !== "stbl") continue;
+    for (const stblChild of readBoxes(view, box.start, box.end)) {
+      if (stblChild.type === "stsd" && stblChild.start + 16 <= stblChild.end) {
+        return readType(view, stblChild.start + 12).trim();
+      }
+    }
+  }
+  return undefined;
+}
+
+// QuickTime 元数据：keys 列出键名，ilst 中的条目以键的序号 (从 1 开始) 作为盒子类型，
+// 值存放在 data 盒子中（类型 4 字节 + 语言 4 字节之后）
+function readQuickTimeKey(view: DataView, meta: Box, key: string): string | undefined {
+  // moov 下的 meta 没有 FullBox 的版本和标志，MP4 的 meta 有
+  const start = meta.start + 8 <= meta.end && readType(view, meta.start + 4) === "hdlr" ? meta.start : meta.start + 4;
+  let keyIndex: number | undefined;
+  let ilst: Box | undefined;
+
+  for (const box of readBoxes(view, start, meta.end)) {
+    if (box.type === "keys") {
+      const count = view.getUint32(box.start + 4);
+      let offset = box.start + 8;
+      for (let i = 1; i <= count && offset + 8 <= box.end; i++) {
+        const size = view.getUint32(offset);
+        if (size < 8 || offset + size > box.end) break;
+        if (readString(view, offset + 8, size - 8) === key) {
+          keyIndex = i;
+        }
+        offset += size;
+      }
+    } else if (box.type === "ilst") {
+      ilst = box;
+    }
+  }
+
+  if (keyIndex === undefined || !ilst) return undefined;
+
+  for (const item of readBoxes(view, ilst.start, ilst.end)) {
+    // 盒子类型的 4 个字节即键的序号
+    if (view.getUint32(item.start - 4) !== keyIndex) continue;
+    for (const data of readBoxes(view, item.start, item.end)) {
+      if (data.type === "data" && data.start + 8 <= data.end) {
+        return readString(view, data.start + 8, data.end - data.start - 8) || undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+function readString(view: DataView, offset: number, length: number): string {
+  return new TextDecoder().decode(new Uint8Array(view.buffer, view.byteOffset + offset, length));
+}
+
+// 顺时针旋转 90° / 180° / 270° 对应 EXIF 方向 6 / 3 / 8，其他变换（镜像、任意角度）忽略
+function matrixOrientation(a: number, b: number): number | undefined {
+  const ONE = 0x10000;
+  if (a === 0 && b === ONE) return 6;
+  if (a === -ONE && b === 0) return 3;
+  if (a === 0 && b === -ONE) return 8;
+  return undefined;
+}
@@ -0,0 +1,80 @@
+// 照片库文件系统监听
+import { watch, type FSWatcher } from "node:fs";
+import { join, sep } from "node:path";
+
+const DEFAULT_DEBOUNCE_MS = 2000;
+
+export interface WatcherOptions {
+  debounceMs?: number; // 合并事件的等待时间
+}
+
+// 监听照片库目录，把短时间内的多个事件合并成一批变更路径
+export class LibraryWatcher {
+  private root: string;
+  private onChanges: (paths: string[]) => void;
+  private debounceMs: number;
+  private watcher: FSWatcher | null = null;
+  private pending: Set<string> = new Set();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(root: string, onChanges: (paths: string[]) => void, options: WatcherOptions = {}) {
+    this.root = root;
+    this.onChanges = onChanges;
+    this.debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+  }
+
+  start(): void {
+    if (this.watcher) return;
+
+    try {
+      this.watcher = watch(this.root, { recursive: true }, (_event, filename) => {
+        if (filename) {
+          this.handleEvent(filename.toString());
+        }
+      });
+      this.watcher.on("error", (error) => {
+        console.error(`File watcher error for ${this.root}:`, error);
+      });
+      console.log(`Watching ${this.root} for changes`);
+    } catch (error) {
+      // 部分网络挂载不支持 inotify，此时只能依赖定期巡检
+      console.error(`Failed to watch ${this.root}, relying on periodic sweep:`, error);
+    }
+  }
+
+  stop(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.pending.clear();
+  }
+
+  private handleEvent(relativePath: string): void {
+    // Synology 索引器会频繁改写 @eaDir，忽略这些事件
+    if (isIgnoredPath(relativePath)) return;
+
+    this.pending.add(join(this.root, relativePath));
+
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.flush(), this.debounceMs);
+  }
+
+  private flush(): void {
+    this.timer = null;
+    const paths = Array.from(this.pending);
+    this.pending.clear();
+    if (paths.length > 0) {
+      this.onChanges(paths);
+    }
+  }
+}
+
+// 跳过 @eaDir 和隐藏文件（包括缓存文件本身）
+export function isIgnoredPath(relativePath: string): boolean {
+  return relativePath
+    .split(sep)
+    .some(segment => segment === "@eaDir" || segment.startsWith("."));
+}
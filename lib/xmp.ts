@@ -0,0 +1,221 @@
+// XMP / IPTC 描述信息：Lightroom、digiKam 等软件写入的评分、标题、说明、关键词和人脸区域。
+// 来源的优先级（从高到低）：
+//   1. XMP 附属文件（IMG_0001.jpg.xmp 或 IMG_0001.xmp），编辑软件中最新的修改
+//   2. 文件内嵌的 XMP
+//   3. 文件内嵌的 IPTC（旧软件写入，只有标题、说明和关键词）
+// 与 Synology 等其他来源的合并见 metadata/index.ts
+import { DOMParser, type Element, type Node } from "@xmldom/xmldom";
+import { basename, dirname, extname, join } from "node:path";
+import type { ExifTags } from "./exif";
+import type { FaceRegion } from "./types";
+
+export interface XmpMetadata {
+  rating?: number;
+  title?: string;
+  description?: string;
+  keywords?: string[];
+  faces?: FaceRegion[]; // 坐标已换算为左上角原点
+}
+
+const NS = {
+  rdf: "http://www.w3.org/1999/02/22-rdf-syntax-ns#",
+  xml: "http://www.w3.org/XML/1998/namespace",
+  xmp: "http://ns.adobe.com/xap/1.0/",
+  dc: "http://purl.org/dc/elements/1.1/",
+  mwgRegions: "http://www.metadataworkinggroup.com/schemas/regions/",
+  area: "http://ns.adobe.com/xmp/sType/Area#",
+};
+
+// 附属文件的两种命名：digiKam / darktable 保留原扩展名，Lightroom 替换扩展名
+export function sidecarPaths(filePath: string): string[] {
+  const stem = join(dirname(filePath), basename(filePath, extname(filePath)));
+  return [`${filePath}.xmp`, `${filePath}.XMP`, `${stem}.xmp`, `${stem}.XMP`];
+}
+
+export function isSidecarFile(filePath: string): boolean {
+  return extname(filePath).toLowerCase() === ".xmp";
+}
+
+export async function readXmpSidecar(filePath: string): Promise<XmpMetadata | undefined> {
+  for (const sidecar of sidecarPaths(filePath)) {
+    const file = Bun.file(sidecar);
+    if (await file.exists()) {
+      return parseXmp(await file.text());
+    }
+  }
+  return undefined;
+}
+
+// 文件内嵌的 XMP 和 IPTC，XMP 优先
+export function readEmbeddedMetadata(tags: ExifTags): XmpMetadata {
+  const xmp = tags.xmp?._raw ? parseXmp(decodeRawXmp(tags.xmp._raw)) : {};
+  return mergeXmpMetadata([xmp, readIptc(tags)]);
+}
+
+// ExifReader 按 Latin-1 逐字节读取 XMP 数据包，XMP 实际是 UTF-8
+function decodeRawXmp(raw: string): string {
+  if (/[^\x00-\xff]/.test(raw)) return raw;
+  return Buffer.from(raw, "latin1").toString("utf8");
+}
+
+// 按优先级合并：单值字段取第一个有值的来源，关键词取并集，人脸区域取第一个有人脸的来源
+export function mergeXmpMetadata(sources: Array<XmpMetadata | undefined>): XmpMetadata {
+  const merged: XmpMetadata = {};
+  for (const source of sources) {
+    if (!source) continue;
+    merged.rating ??= source.rating;
+    merged.title ??= source.title;
+    merged.description ??= source.description;
+    if (source.keywords?.length) {
+      merged.keywords = unique([...(merged.keywords || []), ...source.keywords]);
+    }
+    if (!merged.faces?.length && source.faces?.length) {
+      merged.faces = source.faces;
+    }
+  }
+  return merged;
+}
+
+export function parseXmp(xml: string): XmpMetadata {
+  let descriptions: Element[];
+  try {
+    const doc = new DOMParser({ onError: () => {} }).parseFromString(xml, "text/xml");
+    descriptions = Array.from(doc.getElementsByTagNameNS(NS.rdf, "Description"))
+      .filter(description => (description.parentNode as Element | null)?.localName === "RDF");
+  } catch {
+    return {};
+  }
+
+  // 各个属性可能分散在多个顶层的 rdf:Description 中
+  const property = (ns: string, name: string) => {
+    for (const description of descriptions) {
+      const value = field(description, ns, name);
+      if (value !== undefined) return value;
+    }
+    return undefined;
+  };
+
+  const metadata: XmpMetadata = {};
+
+  const rating = textOf(property(NS.xmp, "Rating"));
+  if (rating && Number.isFinite(Number(rating))) {
+    metadata.rating = Math.max(-1, Math.min(5, Math.round(Number(rating))));
+  }
+
+  metadata.title = altText(property(NS.dc, "title"));
+  metadata.description = altText(property(NS.dc, "description"));
+
+  const keywords = listItems(property(NS.dc, "subject")).map(textOf).filter(Boolean) as string[];
+  if (keywords.length > 0) metadata.keywords = unique(keywords);
+
+  const faces = readRegions(property(NS.mwgRegions, "Regions"));
+  if (faces.length > 0) metadata.faces = faces;
+
+  return metadata;
+}
+
+// IPTC-IIM：标题 (2:05)、说明 (2:120)、关键词 (2:25)
+function readIptc(tags: ExifTags): XmpMetadata {
+  const iptc = tags.iptc as Record<string, unknown> | undefined;
+  if (!iptc) return {};
+
+  const text = (name: string) => {
+    const description = (iptc[name] as { description?: unknown } | undefined)?.description;
+    return typeof description === "string" && description.trim() ? description.trim() : undefined;
+  };
+
+  // 关键词重复出现时 ExifReader 返回数组
+  const keywordTag = iptc["Keywords"];
+  const keywords = (Array.isArray(keywordTag) ? keywordTag : keywordTag ? [keywordTag] : [])
+    .map((tag: { description?: string }) => tag.description?.trim())
+    .filter(Boolean) as string[];
+
+  return {
+    title: text("Object Name"),
+    description: text("Caption/Abstract"),
+    keywords: keywords.length > 0 ? unique(keywords) : undefined,
+  };
+}
+
+// MWG 人脸区域：mwg-rs:Regions/mwg-rs:RegionList/rdf:Bag/rdf:li，
+// 区域坐标是中心点和宽高，相对于图片尺寸
+function readRegions(regions: Element | string | undefined): FaceRegion[] {
+  if (!regions || typeof regions === "string") return [];
+
+  const faces: FaceRegion[] = [];
+  listItems(field(regions, NS.mwgRegions, "RegionList")).forEach((item, i) => {
+    if (typeof item === "string") return;
+    const type = textOf(field(item, NS.mwgRegions, "Type"));
+    if (type && type !== "Face") return;
+
+    const area = field(item, NS.mwgRegions, "Area");
+    if (!area || typeof area === "string") return;
+    const unit = textOf(field(area, NS.area, "unit"));
+    if (unit && unit !== "normalized") return;
+
+    const [x, y, w, h] = ["x", "y", "w", "h"].map(name => Number(textOf(field(area, NS.area, name))));
+    if (![x, y, w, h].every(v => Number.isFinite(v)) || !w || !h) return;
+
+    faces.push({
+      id: `xmp-${i}`,
+      name: textOf(field(item, NS.mwgRegions, "Name")) || undefined,
+      x: clamp(x! - w! / 2),
+      y: clamp(y! - h! / 2),
+      w: Math.min(w!, 1),
+      h: Math.min(h!, 1),
+    });
+  });
+  return faces;
+}
+
+// 结构体字段可以写成属性、子元素，或者写在内层的 rdf:Description 中
+function field(node: Element, ns: string, name: string): Element | string | undefined {
+  if (node.hasAttributeNS(ns, name)) {
+    return node.getAttributeNS(ns, name) ?? undefined;
+  }
+  for (const child of elementChildren(node)) {
+    if (child.namespaceURI === ns && child.localName === name) return child;
+  }
+  for (const child of elementChildren(node)) {
+    if (child.namespaceURI === NS.rdf && child.localName === "Description") {
+      const value = field(child, ns, name);
+      if (value !== undefined) return value;
+    }
+  }
+  return undefined;
+}
+
+// rdf:Bag / rdf:Seq / rdf:Alt 中的 rdf:li
+function listItems(value: Element | string | undefined): Array<Element | string> {
+  if (value === undefined) return [];
+  if (typeof value === "string") return [value];
+
+  const container = elementChildren(value).find(child =>
+    child.namespaceURI === NS.rdf && ["Bag", "Seq", "Alt"].includes(child.localName ?? ""));
+  if (!container) return [value];
+  return elementChildren(container).filter(child => child.namespaceURI === NS.rdf && child.localName === "li");
+}
+
+// 多语言文本取 x-default，没有时取第一项
+function altText(value: Element | string | undefined): string | undefined {
+  const items = listItems(value);
+  const preferred = items.find(item => typeof item !== "string" && item.getAttributeNS(NS.xml, "lang") === "x-default");
+  return textOf(preferred ?? items[0]) || undefined;
+}
+
+function textOf(value: Element | string | undefined): string {
+  if (value === undefined) return "";
+  return (typeof value === "string" ? value : value.textContent ?? "").trim();
+}
+
+function elementChildren(node: Element): Element[] {
+  return Array.from(node.childNodes as ArrayLike<Node>).filter(child => child.nodeType === 1) as Element[];
+}
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
@@ -1,8 +1,9 @@
 // 生成示例照片数据的脚本
 // 用于测试相册功能
 
-import { mkdir } from "node:fs/promises";
+import { copyFile, mkdir } from "node:fs/promises";
 import { join } from "node:path";
+import sharp from "sharp";
 
 const PHOTOS_DIR = "./photos";
 
@@ -32,40 +33,17 @@ const sampleLocations = [
   { name: "成都", lat: 30.5728, lng: 104.0668 },
 ];
 
-// 生成简单的测试图片 (1x1 像素的占位图)
-function generatePlaceholderImage(): Buffer {
-  // 最小的有效 JPEG 文件
-  return Buffer.from([
-    0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01,
-    0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00, 0xff, 0xdb, 0x00, 0x43,
-    0x00, 0x08, 0x06, 0x06, 0x07, 0x06, 0x05, 0x08, 0x07, 0x07, 0x07, 0x09,
-    0x09, 0x08, 0x0a, 0x0c, 0x14, 0x0d, 0x0c, 0x0b, 0x0b, 0x0c, 0x19, 0x12,
-    0x13, 0x0f, 0x14, 0x1d, 0x1a, 0x1f, 0x1e, 0x1d, 0x1a, 0x1c, 0x1c, 0x20,
-    0x24, 0x2e, 0x27, 0x20, 0x22, 0x2c, 0x23, 0x1c, 0x1c, 0x28, 0x37, 0x29,
-    0x2c, 0x30, 0x31, 0x34, 0x34, 0x34, 0x1f, 0x27, 0x39, 0x3d, 0x38, 0x32,
-    0x3c, 0x2e, 0x33, 0x34, 0x32, 0xff, 0xc0, 0x00, 0x0b, 0x08, 0x00, 0x01,
-    0x00, 0x01, 0x01, 0x01, 0x11, 0x00, 0xff, 0xc4, 0x00, 0x1f, 0x00, 0x00,
-    0x01, 0x05, 0x01, 0x01, 0x01, 0x01, 0x01, 0x01, 0x00, 0x00, 0x00, 0x00,
-    0x00, 0x00, 0x00, 0x00, 0x01, 0x02, 0x03, 0x04, 0x05, 0x06, 0x07, 0x08,
-    0x09, 0x0a, 0x0b, 0xff, 0xc4, 0x00, 0xb5, 0x10, 0x00, 0x02, 0x01, 0x03,
-    0x03, 0x02, 0x04, 0x03, 0x05, 0x05, 0x04, 0x04, 0x00, 0x00, 0x01, 0x7d,
-    0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06,
-    0x13, 0x51, 0x61, 0x07, 0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08,
-    0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0, 0x24, 0x33, 0x62, 0x72,
-    0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28,
-    0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45,
-    0x46, 0x47, 0x48, 0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59,
-    0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69, 0x6a, 0x73, 0x74, 0x75,
-    0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
-    0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3,
-    0xa4, 0xa5, 0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6,
-    0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9,
-    0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2,
-    0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4,
-    0xf5, 0xf6, 0xf7, 0xf8, 0xf9, 0xfa, 0xff, 0xda, 0x00, 0x08, 0x01, 0x01,
-    0x00, 0x00, 0x3f, 0x00, 0xfb, 0xd5, 0xdb, 0x20, 0xa8, 0xf1, 0x7e, 0xb4,
-    0x00, 0xff, 0xd9,
-  ]);
+// 生成随机噪点的测试图片，每张内容不同（内容相同的占位图会被识别为重复照片）
+function generatePlaceholderImage(): Promise<Buffer> {
+  return sharp({
+    create: {
+      width: 64,
+      height: 48,
+      channels: 3,
+      background: "#808080",
+      noise: { type: "gaussian", mean: 128, sigma: 60 },
+    },
+  }).jpeg().toBuffer();
 }
 
 // 生成 Synology 元数据
@@ -74,22 +52,28 @@ function generateMetadata(
   people: string[],
   location: { name: string; lat: number; lng: number } | null
 ) {
-  // 生成带有时间的日期
+  // 生成带有时间的日期（示例地点都在中国，按北京时间）
   const hour = 8 + Math.floor(Math.random() * 12);
   const minute = Math.floor(Math.random() * 60);
-  const takenAt = new Date(`${dateStr}T${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}:00`);
+  const takenAt = new Date(`${dateStr}T${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}:00+08:00`);
 
   return {
     version: 1,
     takenAt: takenAt.toISOString(),
-    face: people.map((name, i) => ({
-      id: `face-${i}`,
-      name,
-      x: Math.random() * 0.5,
-      y: Math.random() * 0.5,
-      w: 0.2,
-      h: 0.2,
-    })),
+    face: [
+      ...people.map((name, i) => ({
+        id: `face-${i}`,
+        name,
+        x: Math.random() * 0.5,
+        y: Math.random() * 0.5,
+        w: 0.2,
+        h: 0.2,
+      })),
+      // 部分照片带一个 Synology 还没有命名的人脸
+      ...(Math.random() < 0.3
+        ? [{ id: `face-${people.length}`, x: 0.6 + Math.random() * 0.2, y: Math.random() * 0.5, w: 0.15, h: 0.15 }]
+        : []),
+    ],
     geocoding: location
       ? {
           country: "中国",
@@ -121,7 +105,7 @@ async function generateSampleData() {
         const photoPath = join(albumPath, filename);
 
         // 生成占位图片
-        const imageData = generatePlaceholderImage();
+        const imageData = await generatePlaceholderImage();
         await Bun.write(photoPath, imageData);
 
         // 生成 @eaDir 元数据
@@ -153,6 +137,14 @@ async function generateSampleData() {
     }
   }
 
+  // WhatsApp 转发的副本，用于测试重复照片检测
+  const whatsappPath = join(PHOTOS_DIR, "WhatsApp");
+  await mkdir(whatsappPath, { recursive: true });
+  await copyFile(
+    join(PHOTOS_DIR, "2023/夏日旅行", "IMG_20230715_001.jpg"),
+    join(whatsappPath, "IMG-20230716-WA0001.jpg"),
+  );
+
   console.log(`Generated ${photoCount} sample photos in ${sampleAlbums.length} albums`);
   console.log("\nSample data structure:");
   console.log("- photos/");
@@ -163,6 +155,7 @@ async function generateSampleData() {
   console.log(`  - "X年前的今天": Photos from 2021, 2022, 2023 on ${todayMonth}-${todayDay}`);
   console.log("  - 人物同框: Multiple people in same photos");
   console.log("  - 地点故事: Photos grouped by location (北京, 上海, 杭州, 成都)");
+  console.log("  - 重复照片: WhatsApp/IMG-20230716-WA0001.jpg is a copy of 2023/夏日旅行/IMG_20230715_001.jpg");
   console.log("\nRun 'bun run dev' to start the server");
 }
 
@@ -7,9 +7,29 @@ interface Photo {
   id: string;
   filename: string;
   takenAt?: string;
+  takenAtLocal?: string; // wall-clock time where the photo was taken, no timezone suffix
+  dateSource?: string;
   locationName?: string;
   people?: string[];
   album?: string;
+  root?: string;
+  mediaType?: "photo" | "video";
+  duration?: number;
+  stack?: PhotoStack;
+  rating?: number; // -1 = rejected
+  title?: string;
+  description?: string;
+  tags?: string[];
+  displayWidth?: number; // dimensions after applying EXIF orientation
+  displayHeight?: number;
+}
+
+// Live Photo / RAW+JPEG / burst grouping; members point at the primary photo's id
+interface PhotoStack {
+  id: string;
+  role: "primary" | "live" | "raw" | "burst";
+  size?: number;
+  liveVideoId?: string;
 }
 
 interface Story {
@@ -28,9 +48,31 @@ interface Story {
 
 interface Album {
   id: string;
-  name: string;
-  photoCount: number;
+  name: string; // path inside the library, e.g. "2023/春节"
+  root?: string;
+  parentId?: string;
+  childCount: number;
+  photoCount: number; // includes sub-albums
+  title?: string;       // overrides the folder name
+  description?: string;
   coverPhoto?: string;
+  customCover?: boolean; // chosen by hand rather than picked automatically
+}
+
+type AlbumSort = "date" | "name" | "size";
+
+// null restores the default (folder name, no description, automatic cover)
+interface AlbumUpdate {
+  title?: string | null;
+  description?: string | null;
+  coverPhoto?: string | null;
+}
+
+// An album opened in the Albums view
+interface AlbumFolder {
+  album: Album;
+  children: Album[];
+  breadcrumbs: Album[]; // top-level album down to the parent
 }
 
 interface Person {
@@ -38,10 +80,47 @@ interface Person {
   name: string;
   photoCount: number;
   coverPhoto?: string;
+  coverFaceId?: string;
+  hidden?: boolean;
+  birthday?: string;
+  aliases?: string[];
+}
+
+interface PersonUpdate {
+  name?: string;
+  aliases?: string[];
+  hidden?: boolean;
+  birthday?: string | null;
+}
+
+interface FaceRegion {
+  id: string;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
 }
 
+interface UnnamedFace {
+  photoId: string;
+  face: FaceRegion;
+}
+
+// Location tree node: country → region → city → place (GPS cluster)
 interface Location {
+  id: string;
+  level: "country" | "region" | "city" | "place";
+  name: string;
+  filter: { country?: string; region?: string; city?: string; place?: number };
+  photoCount: number;
+  coverPhoto?: string;
+  children?: Location[];
+}
+
+interface Library {
   name: string;
+  enabled: boolean;
+  online: boolean;
   photoCount: number;
 }
 
@@ -53,19 +132,92 @@ interface Stats {
   yearRange?: { start: number; end: number };
 }
 
+interface ScanStatus {
+  jobId?: string;
+  scanning: boolean;
+  total: number;
+  cached: number;
+  scanned: number;
+  currentRoot?: string;
+  currentDir?: string;
+  filesPerSecond?: number;
+  etaSeconds?: number;
+  errors: number;
+  failure?: string; // set when the last scan aborted
+}
+
+interface ScanError {
+  root: string;
+  path: string;
+  stage: string;
+  message: string;
+}
+
+// Live scan state from /api/scan/events
+interface ScanProgress {
+  status: ScanStatus;
+  directories: number; // directories fully processed in this job
+  latestError?: ScanError; // most recent error streamed during this job
+}
+
+// Library filter query ("" = all enabled libraries)
+function rootQuery(root: string): string {
+  return root ? `?root=${encodeURIComponent(root)}` : "";
+}
+
 // API functions
 const api = {
-  getStats: () => fetch("/api/stats").then(r => r.json()),
+  getStats: (root = "") => fetch(`/api/stats${rootQuery(root)}`).then(r => r.json()),
+  rescan: () => fetch("/api/rescan", { method: "POST" }).then(r => r.json()),
+  getScanErrors: (limit = 20) => fetch(`/api/scan/errors?limit=${limit}`).then(r => r.json()),
+  retryScanErrors: () => fetch("/api/scan/errors/retry", { method: "POST" }).then(r => r.json()),
+  getLibraries: () => fetch("/api/libraries").then(r => r.json()),
   getStories: () => fetch("/api/stories").then(r => r.json()),
   refreshStories: () => fetch("/api/stories/refresh").then(r => r.json()),
   getRandomStory: () => fetch("/api/stories/random").then(r => r.json()),
   getTodayStory: () => fetch("/api/stories/today").then(r => r.json()),
-  getAlbums: () => fetch("/api/albums").then(r => r.json()),
-  getPeople: () => fetch("/api/people").then(r => r.json()),
-  getLocations: () => fetch("/api/locations").then(r => r.json()),
+  getAlbums: (root = "", sort: AlbumSort = "name") =>
+    fetch(`/api/albums${rootQuery(root)}${root ? "&" : "?"}sort=${sort}`).then(r => r.json()),
+  getPeople: (root = "", includeHidden = false) =>
+    fetch(`/api/people${rootQuery(root)}${includeHidden ? `${root ? "&" : "?"}hidden=1` : ""}`).then(r => r.json()),
+  updatePerson: (name: string, update: PersonUpdate) =>
+    fetch(`/api/people/${encodeURIComponent(name)}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(update),
+    }).then(r => r.json()),
+  mergePeople: (names: string[], into: string) =>
+    fetch("/api/people/merge", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ names, into }),
+    }).then(r => r.json()),
+  resetPerson: (name: string) =>
+    fetch(`/api/people/${encodeURIComponent(name)}`, { method: "DELETE" }).then(r => r.json()),
+  getUnnamedFaces: (root = "") =>
+    fetch(`/api/faces/unnamed${rootQuery(root)}`).then(r => r.json()),
+  getPhoto: (id: string) => fetch(`/api/photos/${id}`).then(r => r.json()),
+  getStackMembers: (id: string) => fetch(`/api/photos/${id}/stack`).then(r => r.json()),
+  getLocations: (root = "") => fetch(`/api/locations${rootQuery(root)}`).then(r => r.json()),
+  getAlbum: (id: string, sort: AlbumSort = "name") => fetch(`/api/albums/${id}?sort=${sort}`).then(r => r.json()),
+  updateAlbum: (id: string, update: AlbumUpdate) =>
+    fetch(`/api/albums/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(update),
+    }).then(r => r.json()),
+  resetAlbum: (id: string) => fetch(`/api/albums/${id}`, { method: "DELETE" }).then(r => r.json()),
   getAlbumPhotos: (id: string) => fetch(`/api/albums/${id}/photos`).then(r => r.json()),
-  getPersonPhotos: (name: string) => fetch(`/api/people/${encodeURIComponent(name)}/photos`).then(r => r.json()),
-  getLocationPhotos: (name: string) => fetch(`/api/locations/${encodeURIComponent(name)}/photos`).then(r => r.json()),
+  getPersonPhotos: (name: string, root = "") =>
+    fetch(`/api/people/${encodeURIComponent(name)}/photos${rootQuery(root)}`).then(r => r.json()),
+  getLocationPhotos: (filter: Location["filter"], root = "") => {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filter)) {
+      if (value !== undefined) params.set(key, String(value));
+    }
+    if (root) params.set("root", root);
+    return fetch(`/api/locations/photos?${params}`).then(r => r.json());
+  },
 };
 
 // Icons
@@ -104,6 +256,20 @@ const storyTypeLabels: Record<string, string> = {
   random: "随机回忆",
 };
 
+// Show the date where the photo was taken rather than in the viewer's timezone
+function photoDate(photo: Photo): string | undefined {
+  return photo.takenAtLocal ?? photo.takenAt;
+}
+
+// Dates not read from EXIF or the video container are guesses
+const DATE_SOURCE_LABELS: Record<string, string> = {
+  filename: "根据文件名推断",
+  folder: "根据相册目录推断",
+  takeout: "来自 Google 相册导出",
+  synology: "来自 Synology 元数据",
+  mtime: "文件修改时间",
+};
+
 // Format date
 function formatDate(dateStr?: string): string {
   if (!dateStr) return "";
@@ -115,8 +281,82 @@ function formatDate(dateStr?: string): string {
   });
 }
 
+// Format video duration (m:ss)
+function formatDuration(seconds?: number): string {
+  if (!seconds) return "";
+  const total = Math.round(seconds);
+  const minutes = Math.floor(total / 60);
+  return `${minutes}:${String(total % 60).padStart(2, "0")}`;
+}
+
+// Thumbnail long sides served by /thumb/:id?size= (same as Synology SM/M/XL)
+const THUMB_WIDTHS = { sm: 240, m: 320, xl: 1280 } as const;
+
+// Responsive thumbnail: the browser picks the smallest size that covers `sizes`
+function thumbProps(id: string, sizes: string) {
+  return {
+    src: `/thumb/${id}?size=m`,
+    srcSet: Object.entries(THUMB_WIDTHS).map(([size, width]) => `/thumb/${id}?size=${size} ${width}w`).join(", "),
+    sizes,
+  };
+}
+
+// Viewer image: downscaled preview instead of the multi-megabyte original
+function previewProps(id: string) {
+  return {
+    src: `/thumb/${id}?size=preview`,
+    srcSet: `/thumb/${id}?size=xl 1280w, /thumb/${id}?size=preview 2048w`,
+    sizes: "100vw",
+  };
+}
+
+// Thumbnail load failure: photos fall back to the original (or its converted preview),
+// videos and formats the server cannot convert have nothing to fall back to
+function handleThumbError(e: React.SyntheticEvent<HTMLImageElement>, photo: Photo) {
+  const img = e.target as HTMLImageElement;
+  if (photo.mediaType === "video" || img.src.includes(`/photo/${photo.id}`)) {
+    img.style.visibility = "hidden";
+  } else {
+    img.srcset = "";
+    img.src = `/photo/${photo.id}`;
+  }
+}
+
+// Play badge shown over video thumbnails
+function VideoBadge({ photo }: { photo: Photo }) {
+  if (photo.mediaType !== "video") return null;
+  return <span className="video-badge">▶ {formatDuration(photo.duration)}</span>;
+}
+
+// Stack badge: Live Photos show LIVE, other stacks show how many files they hold
+function StackBadge({ photo }: { photo: Photo }) {
+  if (photo.stack?.role !== "primary") return null;
+  return (
+    <span className="stack-badge">
+      {photo.stack.liveVideoId && photo.stack.size === 2 ? "LIVE" : `▣ ${photo.stack.size}`}
+    </span>
+  );
+}
+
+// Stack member label shown in the viewer strip
+const STACK_ROLE_LABELS: Record<string, string> = {
+  primary: "主照片",
+  live: "实况",
+  raw: "RAW",
+  burst: "连拍",
+};
+
 // Stats Bar Component
-function StatsBar({ stats }: { stats: Stats }) {
+function StatsBar({ stats, scan, notice, onRescan, onRetry }: {
+  stats: Stats;
+  scan: ScanProgress | null;
+  notice: string | null;
+  onRescan: () => void;
+  onRetry: () => void;
+}) {
+  const [showErrors, setShowErrors] = useState(false);
+  const errors = scan?.status.errors ?? 0;
+
   return (
     <div className="stats-bar">
       <div className="stat-item">
@@ -141,10 +381,100 @@ function StatsBar({ stats }: { stats: Stats }) {
           <div className="stat-label">年份跨度</div>
         </div>
       )}
+      {scan?.status.scanning ? (
+        <ScanProgressBar scan={scan} />
+      ) : (
+        <div className="rescan-actions">
+          <button className="rescan-btn" onClick={onRescan} disabled={!scan}>
+            重新扫描
+          </button>
+          {errors > 0 && (
+            <>
+              <button className="rescan-btn scan-errors-btn" onClick={() => setShowErrors(!showErrors)}>
+                {errors} 个错误
+              </button>
+              <button className="rescan-btn" onClick={onRetry} title="重新解析上次扫描出错的文件">
+                重试
+              </button>
+            </>
+          )}
+        </div>
+      )}
+      {notice && <div className="scan-notice">{notice}</div>}
+      {scan?.status.failure && !scan.status.scanning && (
+        <div className="scan-notice">扫描失败：{scan.status.failure}</div>
+      )}
+      {showErrors && errors > 0 && <ScanErrorList count={errors} />}
     </div>
   );
 }
 
+// Files that failed in the last scan, from /api/scan/errors
+function ScanErrorList({ count }: { count: number }) {
+  const [errors, setErrors] = useState<ScanError[] | null>(null);
+
+  useEffect(() => {
+    api.getScanErrors().then(data => setErrors(data.errors || []));
+  }, [count]);
+
+  if (!errors) return <div className="scan-error-list">加载中…</div>;
+  return (
+    <ul className="scan-error-list">
+      {errors.map(error => (
+        <li key={`${error.stage}:${error.path}`}>
+          <span className="scan-error-path">{error.root}:{error.path}</span>
+          <span className="scan-error-message">({error.stage}) {error.message}</span>
+        </li>
+      ))}
+      {count > errors.length && <li className="scan-error-more">还有 {count - errors.length} 个错误</li>}
+    </ul>
+  );
+}
+
+// Progress of the running scan; indeterminate while directories are still being listed
+function ScanProgressBar({ scan }: { scan: ScanProgress }) {
+  const { status, directories } = scan;
+  const processed = status.cached + status.scanned;
+  const listing = status.etaSeconds === undefined && processed === 0;
+  const percent = status.total > 0 ? Math.min(100, (processed / status.total) * 100) : 0;
+  const location = [status.currentRoot, status.currentDir].filter(Boolean).join(" · ");
+
+  return (
+    <div className="scan-progress">
+      <div className={`scan-progress-track ${listing ? "indeterminate" : ""}`}>
+        <div className="scan-progress-fill" style={listing ? undefined : { width: `${percent}%` }} />
+      </div>
+      <div className="scan-progress-text">
+        {listing ? (
+          <span>正在读取目录，已发现 {status.total.toLocaleString()} 个文件</span>
+        ) : (
+          <span>
+            正在索引 {processed.toLocaleString()} / {status.total.toLocaleString()}
+            {status.etaSeconds !== undefined && `，剩余约 ${formatRemaining(status.etaSeconds)}`}
+            {directories > 0 && `，已完成 ${directories} 个目录`}
+          </span>
+        )}
+        {status.errors > 0 && (
+          <span
+            className="scan-progress-errors"
+            title={scan.latestError && `${scan.latestError.path}: ${scan.latestError.message}`}
+          >
+            {status.errors} 个错误
+          </span>
+        )}
+        {location && <span className="scan-progress-dir">{location}</span>}
+      </div>
+    </div>
+  );
+}
+
+// Remaining scan time, coarse units
+function formatRemaining(seconds: number): string {
+  if (seconds < 60) return `${seconds} 秒`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)} 分钟`;
+  return `${Math.floor(seconds / 3600)} 小时 ${Math.round((seconds % 3600) / 60)} 分钟`;
+}
+
 // Story Card Component
 function StoryCard({ story, onClick, featured = false }: { story: Story; onClick: () => void; featured?: boolean }) {
   const coverPhotos = story.photos.slice(0, featured ? 4 : 4);
@@ -156,13 +486,11 @@ function StoryCard({ story, onClick, featured = false }: { story: Story; onClick
           {coverPhotos.map((photo, i) => (
             <img
               key={photo.id}
-              src={`/thumb/${photo.id}`}
+              {...thumbProps(photo.id, featured ? "(max-width: 768px) 50vw, 400px" : "(max-width: 768px) 50vw, 240px")}
               alt=""
               className="story-cover-image"
               loading="lazy"
-              onError={(e) => {
-                (e.target as HTMLImageElement).src = `/photo/${photo.id}`;
-              }}
+              onError={(e) => handleThumbError(e, photo)}
             />
           ))}
         </div>
@@ -221,15 +549,15 @@ function StoryModal({
           {story.photos.map((photo, index) => (
             <div key={photo.id} className="story-photo-item" onClick={() => onPhotoClick(photo, index)}>
               <img
-                src={`/thumb/${photo.id}`}
+                {...thumbProps(photo.id, "(max-width: 768px) 100vw, 320px")}
                 alt={photo.filename}
                 loading="lazy"
-                onError={(e) => {
-                  (e.target as HTMLImageElement).src = `/photo/${photo.id}`;
-                }}
+                onError={(e) => handleThumbError(e, photo)}
               />
+              <VideoBadge photo={photo} />
+              <StackBadge photo={photo} />
               <div className="story-photo-info">
-                {photo.takenAt && <div className="story-photo-date">{formatDate(photo.takenAt)}</div>}
+                {photo.takenAt && <div className="story-photo-date">{formatDate(photoDate(photo))}</div>}
                 {photo.locationName && <div className="story-photo-location">{photo.locationName}</div>}
                 {photo.people && photo.people.length > 0 && (
                   <div className="story-photo-people">
@@ -259,7 +587,28 @@ function PhotoViewer({
   onClose: () => void;
   onNavigate: (index: number) => void;
 }) {
-  const photo = photos[currentIndex];
+  const current = photos[currentIndex];
+  // Stack members of the current photo; the selected member replaces it in the viewer
+  const [members, setMembers] = useState<Photo[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [playingLive, setPlayingLive] = useState(false);
+  const [previewFailed, setPreviewFailed] = useState(false);
+
+  useEffect(() => {
+    setMembers([]);
+    setSelectedId(null);
+    setPlayingLive(false);
+    if (current?.stack?.role !== "primary") return;
+    let cancelled = false;
+    api.getStackMembers(current.id).then(data => {
+      if (!cancelled) setMembers(data.members || []);
+    }).catch(() => {});
+    return () => { cancelled = true; };
+  }, [current?.id]);
+
+  const photo = members.find(m => m.id === selectedId) || current;
+
+  useEffect(() => setPreviewFailed(false), [photo?.id]);
 
   useEffect(() => {
     const handleKeydown = (e: KeyboardEvent) => {
@@ -281,9 +630,15 @@ function PhotoViewer({
             {currentIndex + 1} / {photos.length}
           </span>
         </div>
-        <button className="modal-close" onClick={onClose}>
-          <CloseIcon />
-        </button>
+        <div className="photo-viewer-actions">
+          {/* The viewer shows a preview; downloads get the untouched original (HEIC, RAW, ...) */}
+          <a className="nav-btn" href={`/photo/${photo.id}?download=1`} download={photo.filename}>
+            下载原图
+          </a>
+          <button className="modal-close" onClick={onClose}>
+            <CloseIcon />
+          </button>
+        </div>
       </div>
       <div className="photo-viewer-content">
         {currentIndex > 0 && (
@@ -291,22 +646,104 @@ function PhotoViewer({
             <ChevronLeft />
           </button>
         )}
-        <img
-          src={`/photo/${photo.id}`}
-          alt={photo.filename}
-          className="photo-viewer-image"
-        />
+        {photo.mediaType === "video" ? (
+          <video
+            key={photo.id}
+            src={`/video/${photo.id}`}
+            poster={`/thumb/${photo.id}?size=xl`}
+            className="photo-viewer-image"
+            controls
+            autoPlay
+            playsInline
+          />
+        ) : playingLive && current?.stack?.liveVideoId ? (
+          <video
+            key={current.stack.liveVideoId}
+            src={`/video/${current.stack.liveVideoId}`}
+            poster={`/thumb/${photo.id}?size=preview`}
+            className="photo-viewer-image"
+            autoPlay
+            muted
+            playsInline
+            onEnded={() => setPlayingLive(false)}
+          />
+        ) : previewFailed ? (
+          // No preview could be made (e.g. HEIC without a decoder); the original can still be downloaded
+          <div className="photo-viewer-placeholder">
+            <p>无法在浏览器中预览 {photo.filename}</p>
+            <a className="nav-btn" href={`/photo/${photo.id}?download=1`} download={photo.filename}>
+              下载原图
+            </a>
+          </div>
+        ) : (
+          <img
+            key={photo.id}
+            {...previewProps(photo.id)}
+            alt={photo.filename}
+            className="photo-viewer-image"
+            onError={() => setPreviewFailed(true)}
+          />
+        )}
+        {current?.stack?.liveVideoId && photo === current && (
+          <button
+            className={`live-btn ${playingLive ? "active" : ""}`}
+            onClick={() => setPlayingLive(!playingLive)}
+          >
+            LIVE
+          </button>
+        )}
         {currentIndex < photos.length - 1 && (
           <button className="photo-nav-btn next" onClick={() => onNavigate(currentIndex + 1)}>
             <ChevronRight />
           </button>
         )}
       </div>
+      {current && members.length > 0 && (
+        <div className="stack-strip">
+          {[current, ...members].map(member => (
+            <button
+              key={member.id}
+              className={`stack-strip-item ${member.id === photo.id ? "active" : ""}`}
+              onClick={() => {
+                setSelectedId(member.id === current.id ? null : member.id);
+                setPlayingLive(false);
+              }}
+            >
+              <img
+                {...thumbProps(member.id, "80px")}
+                alt={member.filename}
+                loading="lazy"
+                onError={(e) => handleThumbError(e, member)}
+              />
+              <span className="stack-strip-label">
+                {STACK_ROLE_LABELS[member.id === current.id ? "primary" : member.stack?.role || ""] || member.filename}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
       <div className="photo-viewer-info">
+        {(photo.title || photo.description) && (
+          <div className="photo-info-item">
+            <div className="photo-info-label">{photo.title || "说明"}</div>
+            {photo.description && <div className="photo-info-value">{photo.description}</div>}
+          </div>
+        )}
+        {photo.rating !== undefined && photo.rating > 0 && (
+          <div className="photo-info-item">
+            <div className="photo-info-label">评分</div>
+            <div className="photo-info-value">{"★".repeat(photo.rating)}{"☆".repeat(5 - photo.rating)}</div>
+          </div>
+        )}
         {photo.takenAt && (
           <div className="photo-info-item">
             <div className="photo-info-label">拍摄时间</div>
-            <div className="photo-info-value">{formatDate(photo.takenAt)}</div>
+            <div className="photo-info-value">
+              {formatDate(photoDate(photo))}
+              {photo.dateSource && DATE_SOURCE_LABELS[photo.dateSource] && (
+                <span className="photo-info-note">（{DATE_SOURCE_LABELS[photo.dateSource]}）</span>
+              )}
+            </div>
           </div>
         )}
         {photo.locationName && (
@@ -321,12 +758,220 @@ function PhotoViewer({
             <div className="photo-info-value">{photo.people.join(", ")}</div>
           </div>
         )}
+        {photo.tags && photo.tags.length > 0 && (
+          <div className="photo-info-item">
+            <div className="photo-info-label">标签</div>
+            <div className="photo-info-value">{photo.tags.join(", ")}</div>
+          </div>
+        )}
         {photo.album && (
           <div className="photo-info-item">
             <div className="photo-info-label">相册</div>
             <div className="photo-info-value">{photo.album}</div>
           </div>
         )}
+        {photo.displayWidth && photo.displayHeight && (
+          <div className="photo-info-item">
+            <div className="photo-info-label">尺寸</div>
+            <div className="photo-info-value">{photo.displayWidth} × {photo.displayHeight}</div>
+          </div>
+        )}
+        {photo.mediaType === "video" && photo.duration && (
+          <div className="photo-info-item">
+            <div className="photo-info-label">时长</div>
+            <div className="photo-info-value">{formatDuration(photo.duration)}</div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Person avatar: face crop when the cover photo has a face box, whole photo otherwise
+function personCoverUrl(person: Person): string | undefined {
+  if (!person.coverPhoto) return undefined;
+  return person.coverFaceId
+    ? `/face/${person.coverPhoto}/${encodeURIComponent(person.coverFaceId)}`
+    : `/thumb/${person.coverPhoto}?size=m`;
+}
+
+// Person settings editor: rename, aliases, birthday, hide, merge
+function PersonEditor({
+  person,
+  people,
+  onClose,
+  onSaved,
+}: {
+  person: Person;
+  people: Person[];
+  onClose: () => void;
+  onSaved: () => void;
+}) {
+  const [name, setName] = useState(person.name);
+  const [aliases, setAliases] = useState((person.aliases || []).join(", "));
+  const [birthday, setBirthday] = useState(person.birthday || "");
+  const [hidden, setHidden] = useState(!!person.hidden);
+  const [mergeInto, setMergeInto] = useState("");
+
+  const save = async () => {
+    await api.updatePerson(person.name, {
+      name: name.trim() || person.name,
+      aliases: aliases.split(/[,，]/).map(a => a.trim()).filter(Boolean),
+      birthday: birthday || null,
+      hidden,
+    });
+    onSaved();
+  };
+
+  const merge = async () => {
+    if (!mergeInto) return;
+    await api.mergePeople([person.name], mergeInto);
+    onSaved();
+  };
+
+  const reset = async () => {
+    await api.resetPerson(person.name);
+    onSaved();
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-header">
+        <div>
+          <h2 className="modal-title">编辑人物</h2>
+          <p className="modal-subtitle">{person.name} · {person.photoCount} 张照片</p>
+        </div>
+        <button className="modal-close" onClick={onClose}>
+          <CloseIcon />
+        </button>
+      </div>
+      <div className="modal-content">
+        <div className="person-form">
+          <label>
+            名字
+            <input value={name} onChange={(e) => setName(e.target.value)} />
+          </label>
+          <label>
+            别名（逗号分隔，这些名字都会显示为上面的名字）
+            <input value={aliases} onChange={(e) => setAliases(e.target.value)} />
+          </label>
+          <label>
+            生日
+            <input type="date" value={birthday} onChange={(e) => setBirthday(e.target.value)} />
+          </label>
+          <label className="person-form-checkbox">
+            <input type="checkbox" checked={hidden} onChange={(e) => setHidden(e.target.checked)} />
+            在人物列表和故事中隐藏
+          </label>
+          <div className="person-form-actions">
+            <button className="nav-btn active" onClick={save}>保存</button>
+            <button className="nav-btn" onClick={reset}>恢复原始名字</button>
+          </div>
+
+          <label>
+            合并到其他人物
+            <select value={mergeInto} onChange={(e) => setMergeInto(e.target.value)}>
+              <option value="">选择人物</option>
+              {people.filter(p => p.name !== person.name).map(p => (
+                <option key={p.id} value={p.name}>{p.name}</option>
+              ))}
+            </select>
+          </label>
+          <div className="person-form-actions">
+            <button className="nav-btn" onClick={merge} disabled={!mergeInto}>合并</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Album settings editor: title, description and cover photo
+function AlbumEditor({
+  album,
+  onClose,
+  onSaved,
+}: {
+  album: Album;
+  onClose: () => void;
+  onSaved: () => void;
+}) {
+  const [title, setTitle] = useState(album.title || "");
+  const [description, setDescription] = useState(album.description || "");
+  // "" keeps the automatic cover
+  const [cover, setCover] = useState(album.customCover ? album.coverPhoto! : "");
+  const [photos, setPhotos] = useState<Photo[]>([]);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    api.getAlbumPhotos(album.id).then(data => setPhotos(data.photos || []));
+  }, [album.id]);
+
+  const save = async () => {
+    const data = await api.updateAlbum(album.id, {
+      title: title.trim() || null,
+      description: description.trim() || null,
+      coverPhoto: cover || null,
+    });
+    if (data.error) {
+      setError(data.error);
+      return;
+    }
+    onSaved();
+  };
+
+  const reset = async () => {
+    await api.resetAlbum(album.id);
+    onSaved();
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-header">
+        <div>
+          <h2 className="modal-title">编辑相册</h2>
+          <p className="modal-subtitle">{album.name} · {album.photoCount} 张照片</p>
+        </div>
+        <button className="modal-close" onClick={onClose}>
+          <CloseIcon />
+        </button>
+      </div>
+      <div className="modal-content">
+        <div className="person-form">
+          <label>
+            标题（留空使用目录名）
+            <input value={title} placeholder={album.name.split("/").pop()} onChange={(e) => setTitle(e.target.value)} />
+          </label>
+          <label>
+            说明
+            <textarea rows={3} value={description} onChange={(e) => setDescription(e.target.value)} />
+          </label>
+          {error && <p className="album-form-error">{error}</p>}
+          <div className="person-form-actions">
+            <button className="nav-btn active" onClick={save}>保存</button>
+            <button className="nav-btn" onClick={reset}>恢复默认</button>
+          </div>
+        </div>
+
+        <h3 className="cover-picker-title">封面</h3>
+        <div className="cover-picker">
+          <button
+            className={`cover-picker-auto ${cover === "" ? "selected" : ""}`}
+            onClick={() => setCover("")}
+          >
+            自动选择
+          </button>
+          {photos.map(photo => (
+            <img
+              key={photo.id}
+              className={cover === photo.id ? "selected" : ""}
+              src={`/thumb/${photo.id}?size=sm`}
+              alt=""
+              loading="lazy"
+              onClick={() => setCover(photo.id)}
+            />
+          ))}
+        </div>
       </div>
     </div>
   );
@@ -336,22 +981,24 @@ function PhotoViewer({
 function CategoryCard({
   name,
   count,
-  coverPhotoId,
+  coverUrl,
   icon,
   onClick,
+  onEdit,
 }: {
   name: string;
   count: number;
-  coverPhotoId?: string;
+  coverUrl?: string;
   icon?: string;
   onClick: () => void;
+  onEdit?: () => void;
 }) {
   return (
     <div className="category-card" onClick={onClick}>
       <div className="category-cover">
-        {coverPhotoId ? (
+        {coverUrl ? (
           <img
-            src={`/thumb/${coverPhotoId}`}
+            src={coverUrl}
             alt=""
             loading="lazy"
             onError={(e) => {
@@ -365,6 +1012,18 @@ function CategoryCard({
       <div className="category-info">
         <div className="category-name">{name}</div>
         <div className="category-count">{count} 张照片</div>
+        {onEdit && (
+          <button
+            className="category-edit"
+            title="编辑"
+            onClick={(e) => {
+              e.stopPropagation();
+              onEdit();
+            }}
+          >
+            ✎
+          </button>
+        )}
       </div>
     </div>
   );
@@ -377,9 +1036,21 @@ function App() {
   const [stories, setStories] = useState<Story[]>([]);
   const [albums, setAlbums] = useState<Album[]>([]);
   const [people, setPeople] = useState<Person[]>([]);
+  const [showHiddenPeople, setShowHiddenPeople] = useState(false);
+  const [editingPerson, setEditingPerson] = useState<Person | null>(null);
+  const [unnamedFaces, setUnnamedFaces] = useState<{ total: number; faces: UnnamedFace[] } | null>(null);
+  const [albumFolder, setAlbumFolder] = useState<AlbumFolder | null>(null);
+  const [albumSort, setAlbumSort] = useState<AlbumSort>("name");
+  const [editingAlbum, setEditingAlbum] = useState<Album | null>(null);
   const [locations, setLocations] = useState<Location[]>([]);
+  const [locationPath, setLocationPath] = useState<Location[]>([]);
+  const [libraries, setLibraries] = useState<Library[]>([]);
+  const [library, setLibrary] = useState("");
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [scan, setScan] = useState<ScanProgress | null>(null);
+  const [scanNotice, setScanNotice] = useState<string | null>(null);
+  const [indexVersion, setIndexVersion] = useState(0);
 
   const [selectedStory, setSelectedStory] = useState<Story | null>(null);
   const [viewerPhotos, setViewerPhotos] = useState<Photo[] | null>(null);
@@ -387,24 +1058,108 @@ function App() {
 
   // Load initial data
   useEffect(() => {
-    Promise.all([api.getStats(), api.getStories()])
-      .then(([statsData, storiesData]) => {
+    Promise.all([api.getStats(), api.getStories(), api.getLibraries()])
+      .then(([statsData, storiesData, librariesData]) => {
         setStats(statsData);
         setStories(storiesData.stories || []);
+        setLibraries((librariesData.libraries || []).filter((l: Library) => l.enabled));
       })
       .finally(() => setLoading(false));
   }, []);
 
+  // Follow scan progress; EventSource reconnects by itself if the server restarts
+  useEffect(() => {
+    const events = new EventSource("/api/scan/events");
+    const parse = (e: Event) => JSON.parse((e as MessageEvent).data);
+
+    events.addEventListener("status", (e) => {
+      const { status } = parse(e) as { status: ScanStatus };
+      setScan(prev => prev && prev.status.jobId === status.jobId
+        ? { ...prev, status }
+        : { status, directories: 0 });
+    });
+    events.addEventListener("directory", () => {
+      setScan(prev => prev && { ...prev, directories: prev.directories + 1 });
+    });
+    events.addEventListener("error", (e) => {
+      // EventSource also fires "error" (without data) when the connection drops
+      if (!(e instanceof MessageEvent)) return;
+      const { error } = parse(e) as { error: ScanError };
+      setScan(prev => prev && { ...prev, latestError: error });
+    });
+    events.addEventListener("complete", (e) => {
+      const { status } = parse(e) as { status: ScanStatus };
+      setScan(prev => prev && { ...prev, status });
+      setScanNotice(null);
+      setIndexVersion(v => v + 1);
+    });
+    return () => events.close();
+  }, []);
+
+  // Indexing finished: reload stats and stories, drop category data so it is fetched again
+  useEffect(() => {
+    if (indexVersion === 0) return;
+    api.getStats(library).then(setStats);
+    api.getStories().then(data => setStories(data.stories || []));
+    api.getLibraries().then(data => setLibraries((data.libraries || []).filter((l: Library) => l.enabled)));
+    setAlbums([]);
+    setAlbumFolder(null);
+    setPeople([]);
+    setUnnamedFaces(null);
+    setLocations([]);
+    setLocationPath([]);
+  }, [indexVersion]);
+
   // Load category data when switching views
   useEffect(() => {
     if (view === "albums" && albums.length === 0) {
-      api.getAlbums().then(data => setAlbums(data.albums || []));
+      api.getAlbums(library, albumSort).then(data => setAlbums(data.albums || []));
     } else if (view === "people" && people.length === 0) {
-      api.getPeople().then(data => setPeople(data.people || []));
+      api.getPeople(library, showHiddenPeople).then(data => setPeople(data.people || []));
+      api.getUnnamedFaces(library).then(setUnnamedFaces);
     } else if (view === "locations" && locations.length === 0) {
-      api.getLocations().then(data => setLocations(data.locations || []));
+      api.getLocations(library).then(data => setLocations(data.locations || []));
     }
-  }, [view, albums.length, people.length, locations.length]);
+  }, [view, library, showHiddenPeople, albumSort, albums.length, people.length, locations.length]);
+
+  // Reload people after editing (names, merges and hidden flags change the list)
+  const reloadPeople = () => {
+    setEditingPerson(null);
+    setPeople([]);
+    setUnnamedFaces(null);
+  };
+
+  // Switch library filter: reload stats and drop category data loaded for the previous filter
+  const changeLibrary = (name: string) => {
+    setLibrary(name);
+    setAlbums([]);
+    setAlbumFolder(null);
+    setPeople([]);
+    setUnnamedFaces(null);
+    setLocations([]);
+    setLocationPath([]);
+    api.getStats(name).then(setStats);
+  };
+
+  // Stories are generated across all libraries; keep those with photos from the selected one
+  const visibleStories = library
+    ? stories.filter(story => story.photos.some(photo => photo.root === library))
+    : stories;
+
+  // Start a background rescan; progress arrives over the event stream
+  const handleRescan = () => {
+    api.rescan().then(data => {
+      // 409: another scan (e.g. one started from the settings) is still running
+      setScanNotice(data.error ? "已有扫描正在进行，完成后再试" : null);
+    });
+  };
+
+  // Re-index the files that failed; errors that persist are recorded again on the server
+  const handleRetry = () => {
+    api.retryScanErrors().then(() => {
+      setScan(prev => prev && { ...prev, status: { ...prev.status, errors: 0 } });
+    });
+  };
 
   // Refresh stories
   const handleRefresh = async () => {
@@ -423,6 +1178,34 @@ function App() {
     setViewerIndex(index);
   };
 
+  // Browse into an album that has sub-albums
+  const openAlbumFolder = async (album: Album, sort = albumSort) => {
+    const data = await api.getAlbum(album.id, sort);
+    if (data.album) setAlbumFolder(data);
+  };
+
+  // Albums are sorted on the server; reload the list and the open folder in the new order
+  const changeAlbumSort = (sort: AlbumSort) => {
+    setAlbumSort(sort);
+    setAlbums([]);
+    if (albumFolder) openAlbumFolder(albumFolder.album, sort);
+  };
+
+  // Reload after editing (titles change names and order, covers change thumbnails)
+  const reloadAlbums = () => {
+    setEditingAlbum(null);
+    setAlbums([]);
+    if (albumFolder) openAlbumFolder(albumFolder.album);
+  };
+
+  const topLevelAlbums = albums.filter(album => !album.parentId);
+
+  // Album title or last path segment, prefixed with the library when several are shown together
+  const albumTitle = (album: Album) => {
+    const title = album.title || album.name.split("/").pop()!;
+    return libraries.length > 1 && !library && !album.parentId ? `${album.root} / ${title}` : title;
+  };
+
   // Load and show category photos
   const showAlbumPhotos = async (album: Album) => {
     const data = await api.getAlbumPhotos(album.id);
@@ -430,15 +1213,16 @@ function App() {
       setSelectedStory({
         id: `album-${album.id}`,
         type: "album",
-        title: album.name,
+        title: album.title || album.name.split("/").pop()!,
         subtitle: `${data.photos.length} 张照片`,
+        description: album.description,
         photos: data.photos,
       });
     }
   };
 
   const showPersonPhotos = async (person: Person) => {
-    const data = await api.getPersonPhotos(person.name);
+    const data = await api.getPersonPhotos(person.name, library);
     if (data.photos && data.photos.length > 0) {
       setSelectedStory({
         id: `person-${person.id}`,
@@ -450,11 +1234,19 @@ function App() {
     }
   };
 
+  // Open the photo an unnamed face belongs to
+  const showFacePhoto = async (item: UnnamedFace) => {
+    const photo = await api.getPhoto(item.photoId);
+    if (photo && !photo.error) {
+      openPhotoViewer(photo, 0, [photo]);
+    }
+  };
+
   const showLocationPhotos = async (location: Location) => {
-    const data = await api.getLocationPhotos(location.name);
+    const data = await api.getLocationPhotos(location.filter, library);
     if (data.photos && data.photos.length > 0) {
       setSelectedStory({
-        id: `location-${location.name}`,
+        id: `location-${location.id}`,
         type: "location",
         title: location.name,
         subtitle: `${data.photos.length} 张照片`,
@@ -502,12 +1294,26 @@ function App() {
             >
               地点
             </button>
+            {libraries.length > 1 && (
+              <select
+                className="library-select"
+                value={library}
+                onChange={(e) => changeLibrary(e.target.value)}
+              >
+                <option value="">全部照片库</option>
+                {libraries.map(l => (
+                  <option key={l.name} value={l.name}>
+                    {l.online ? l.name : `${l.name}（离线）`}
+                  </option>
+                ))}
+              </select>
+            )}
           </nav>
         </div>
       </header>
 
       <main className="main">
-        {stats && <StatsBar stats={stats} />}
+        {stats && <StatsBar stats={stats} scan={scan} notice={scanNotice} onRescan={handleRescan} onRetry={handleRetry} />}
 
         {view === "stories" && (
           <section className="stories-section">
@@ -519,7 +1325,7 @@ function App() {
               </button>
             </div>
 
-            {stories.length === 0 ? (
+            {visibleStories.length === 0 ? (
               <div className="empty-state">
                 <div className="empty-state-icon">📷</div>
                 <h3 className="empty-state-title">还没有照片</h3>
@@ -527,7 +1333,7 @@ function App() {
               </div>
             ) : (
               <div className="stories-grid">
-                {stories.map((story, index) => (
+                {visibleStories.map((story, index) => (
                   <StoryCard
                     key={story.id}
                     story={story}
@@ -541,46 +1347,135 @@ function App() {
         )}
 
         {view === "albums" && (
-          <div className="category-grid">
-            {albums.map(album => (
-              <CategoryCard
-                key={album.id}
-                name={album.name}
-                count={album.photoCount}
-                coverPhotoId={album.coverPhoto}
-                onClick={() => showAlbumPhotos(album)}
-              />
-            ))}
-          </div>
+          <>
+            <div className="people-toolbar">
+              <label>
+                排序
+                <select value={albumSort} onChange={(e) => changeAlbumSort(e.target.value as AlbumSort)}>
+                  <option value="name">名称</option>
+                  <option value="date">最近拍摄</option>
+                  <option value="size">照片数量</option>
+                </select>
+              </label>
+            </div>
+            {albumFolder && (
+              <div className="breadcrumb">
+                <button onClick={() => setAlbumFolder(null)}>全部相册</button>
+                {[...albumFolder.breadcrumbs, albumFolder.album].map(album => (
+                  <React.Fragment key={album.id}>
+                    <span>›</span>
+                    <button onClick={() => openAlbumFolder(album)}>{albumTitle(album)}</button>
+                  </React.Fragment>
+                ))}
+                <button className="nav-btn" onClick={() => showAlbumPhotos(albumFolder.album)}>
+                  查看全部 {albumFolder.album.photoCount} 张照片
+                </button>
+              </div>
+            )}
+            {albumFolder?.album.description && (
+              <p className="album-description">{albumFolder.album.description}</p>
+            )}
+            <div className="category-grid">
+              {(albumFolder ? albumFolder.children : topLevelAlbums).map(album => (
+                <CategoryCard
+                  key={album.id}
+                  name={albumTitle(album)}
+                  count={album.photoCount}
+                  coverUrl={album.coverPhoto ? `/thumb/${album.coverPhoto}?size=m` : undefined}
+                  onClick={() => album.childCount > 0 ? openAlbumFolder(album) : showAlbumPhotos(album)}
+                  onEdit={() => setEditingAlbum(album)}
+                />
+              ))}
+            </div>
+          </>
         )}
 
         {view === "people" && (
-          <div className="category-grid">
-            {people.map(person => (
-              <CategoryCard
-                key={person.id}
-                name={person.name}
-                count={person.photoCount}
-                coverPhotoId={person.coverPhoto}
-                icon="👤"
-                onClick={() => showPersonPhotos(person)}
-              />
-            ))}
-          </div>
+          <>
+            <div className="people-toolbar">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={showHiddenPeople}
+                  onChange={(e) => {
+                    setShowHiddenPeople(e.target.checked);
+                    setPeople([]);
+                  }}
+                />
+                显示隐藏的人物
+              </label>
+            </div>
+            <div className="category-grid">
+              {people.map(person => (
+                <CategoryCard
+                  key={person.id}
+                  name={person.hidden ? `${person.name}（已隐藏）` : person.name}
+                  count={person.photoCount}
+                  coverUrl={personCoverUrl(person)}
+                  icon="👤"
+                  onClick={() => showPersonPhotos(person)}
+                  onEdit={() => setEditingPerson(person)}
+                />
+              ))}
+            </div>
+
+            {unnamedFaces && unnamedFaces.total > 0 && (
+              <section className="unnamed-faces">
+                <h2 className="section-title">未命名的人脸（{unnamedFaces.total}）</h2>
+                <div className="face-grid">
+                  {unnamedFaces.faces.map(item => (
+                    <img
+                      key={`${item.photoId}/${item.face.id}`}
+                      className="face-avatar"
+                      src={`/face/${item.photoId}/${encodeURIComponent(item.face.id)}`}
+                      alt=""
+                      loading="lazy"
+                      onClick={() => showFacePhoto(item)}
+                      onError={(e) => {
+                        (e.target as HTMLImageElement).style.display = "none";
+                      }}
+                    />
+                  ))}
+                </div>
+              </section>
+            )}
+          </>
         )}
 
         {view === "locations" && (
-          <div className="category-grid">
-            {locations.map(location => (
-              <CategoryCard
-                key={location.name}
-                name={location.name}
-                count={location.photoCount}
-                icon="📍"
-                onClick={() => showLocationPhotos(location)}
-              />
-            ))}
-          </div>
+          <>
+            {locationPath.length > 0 && (
+              <div className="breadcrumb">
+                <button onClick={() => setLocationPath([])}>全部地点</button>
+                {locationPath.map((location, i) => (
+                  <React.Fragment key={location.id}>
+                    <span>›</span>
+                    <button onClick={() => setLocationPath(locationPath.slice(0, i + 1))}>{location.name}</button>
+                  </React.Fragment>
+                ))}
+                <button
+                  className="nav-btn"
+                  onClick={() => showLocationPhotos(locationPath[locationPath.length - 1]!)}
+                >
+                  查看全部 {locationPath[locationPath.length - 1]!.photoCount} 张照片
+                </button>
+              </div>
+            )}
+            <div className="category-grid">
+              {(locationPath.length > 0 ? locationPath[locationPath.length - 1]!.children || [] : locations).map(location => (
+                <CategoryCard
+                  key={location.id}
+                  name={location.name}
+                  count={location.photoCount}
+                  coverUrl={location.coverPhoto ? `/thumb/${location.coverPhoto}?size=m` : undefined}
+                  icon="📍"
+                  onClick={() => location.children
+                    ? setLocationPath([...locationPath, location])
+                    : showLocationPhotos(location)}
+                />
+              ))}
+            </div>
+          </>
         )}
       </main>
 
@@ -593,6 +1488,25 @@ function App() {
         />
       )}
 
+      {/* Person Editor */}
+      {editingPerson && (
+        <PersonEditor
+          person={editingPerson}
+          people={people}
+          onClose={() => setEditingPerson(null)}
+          onSaved={reloadPeople}
+        />
+      )}
+
+      {/* Album Editor */}
+      {editingAlbum && (
+        <AlbumEditor
+          album={editingAlbum}
+          onClose={() => setEditingAlbum(null)}
+          onSaved={reloadAlbums}
+        />
+      )}
+
       {/* Photo Viewer */}
       {viewerPhotos && (
         <PhotoViewer